@@ -0,0 +1,15 @@
+module.exports = {
+  root: true,
+  env: { node: true, es2022: true },
+  parser: "@typescript-eslint/parser",
+  parserOptions: { ecmaVersion: 2022, sourceType: "module" },
+  plugins: ["@typescript-eslint", "import"],
+  extends: ["eslint:recommended", "plugin:@typescript-eslint/recommended", "prettier"],
+  ignorePatterns: ["dist/", "node_modules/"],
+  rules: {
+    // The CLI and the server opt in where they print
+    "no-console": "error",
+    "import/no-duplicates": "error",
+    "@typescript-eslint/no-unused-vars": ["error", { argsIgnorePattern: "^_", varsIgnorePattern: "^_" }]
+  }
+};
@@ -0,0 +1,71 @@
+import { AsmItem, assemble } from "../testing/assembler";
+import { CallArguments } from "../types/analysis";
+import { analyzeBytecode } from "./delegateScanner";
+
+const IMPL = "0x3000000000000000000000000000000000000003";
+
+// DELEGATECALL(gas(), IMPL, 0, calldatasize(), 0, outSize) with the calldata copied to 0,
+// then `after` with the success flag on the stack
+function delegate(after: AsmItem[], outSize = "0x00"): CallArguments | undefined {
+  const bytecode = assemble([
+    "CALLDATASIZE", "PUSH0", "PUSH0", "CALLDATACOPY",
+    { push: outSize }, "PUSH0", "CALLDATASIZE", "PUSH0", { push: IMPL }, "GAS", "DELEGATECALL",
+    ...after
+  ]);
+  return analyzeBytecode(bytecode).sites[0]?.callArguments;
+}
+
+describe("analyzeCallArguments", () => {
+  it("recognizes transparent forwarding", () => {
+    const args = delegate(["POP", "RETURNDATASIZE", "PUSH0", "PUSH0", "RETURNDATACOPY", "RETURNDATASIZE", "PUSH0", "RETURN"]);
+    expect(args).toMatchObject({ gas: "remaining", input: "msg.data", returnData: "returned" });
+  });
+
+  it("recognizes a fixed gas limit and a payload for one function", () => {
+    // initialize() with 0x5000 gas: DELEGATECALL(0x5000, IMPL, 0, 4, 0, 0)
+    const bytecode = assemble([
+      { push: `0x8129fc1c${"0".repeat(56)}` }, "PUSH0", "MSTORE",
+      "PUSH0", "PUSH0", { push: "0x04" }, "PUSH0", { push: IMPL }, { push: "0x5000" }, "DELEGATECALL",
+      "POP", "STOP"
+    ]);
+    expect(analyzeBytecode(bytecode).sites[0]?.callArguments).toEqual({
+      gas: "fixed",
+      gasLimit: "0x5000",
+      input: "fixed-selector",
+      selector: "0x8129fc1c",
+      returnData: "discarded"
+    });
+  });
+
+  it("follows the copy destination through an unknown pointer", () => {
+    // ptr := mload(0x40); returndatacopy(ptr, 0, returndatasize()); return(ptr, returndatasize())
+    const args = delegate([
+      "POP", { push: "0x40" }, "MLOAD",
+      "RETURNDATASIZE", "PUSH0", "DUP3", "RETURNDATACOPY",
+      "RETURNDATASIZE", "DUP2", "RETURN"
+    ]);
+    expect(args?.returnData).toBe("returned");
+  });
+
+  it("does not count returning the data ABI-encoded as a function's own value as returned", () => {
+    // return(0x60, 0x40 + returndatasize()): offset 0x20, then the length and the data copied to 0xa0
+    const args = delegate([
+      "POP",
+      "RETURNDATASIZE", "PUSH0", { push: "0xa0" }, "RETURNDATACOPY",
+      "RETURNDATASIZE", { push: "0x80" }, "MSTORE",
+      { push: "0x20" }, { push: "0x60" }, "MSTORE",
+      "RETURNDATASIZE", { push: "0x40" }, "ADD", { push: "0x60" }, "RETURN"
+    ]);
+    expect(args?.returnData).toBe("copied");
+  });
+
+  it("does not count a RETURN from elsewhere in memory as returned", () => {
+    const args = delegate(["POP", "RETURNDATASIZE", "PUSH0", "PUSH0", "RETURNDATACOPY", "RETURNDATASIZE", { push: "0x80" }, "RETURN"]);
+    expect(args?.returnData).toBe("copied");
+  });
+
+  it("tells copied output from discarded return data", () => {
+    expect(delegate(["POP", "STOP"], "0x20")?.returnData).toBe("copied");
+    expect(delegate(["POP", "STOP"])?.returnData).toBe("discarded");
+  });
+});
@@ -0,0 +1,261 @@
+import { CallArguments, CallInput, GasArgument, StackExpression } from "../types/analysis";
+import { ControlFlowGraph, getBlockContaining } from "./cfg";
+import { expressionsEqual, leadingSelector, literalToBigInt, simplifyExpression } from "./expressionSimplifier";
+import { haltsExecution } from "./opcodes";
+import { describeSelector } from "./signatures";
+import { applyInstructionToStack, BlockState, stateAtPC, TraceContext } from "./stackTracer";
+import { hashExpression } from "./valueDomain";
+
+// Instructions that replace the return data buffer of an earlier call
+const RETURNDATA_WRITERS = new Set(["CALL", "CALLCODE", "DELEGATECALL", "STATICCALL", "CREATE", "CREATE2"]);
+
+// Blocks searched after a call for the code handling its return data
+const MAX_RETURN_BLOCKS = 64;
+
+// Blocks searched before a call for the MSTORE of its selector
+const MAX_SELECTOR_BLOCKS = 16;
+
+/**
+ * Describes the DELEGATECALL operands besides the target:
+ * DELEGATECALL(gas, to, inOffset, inSize, outOffset, outSize). Transparent
+ * proxies forward all gas and msg.data and return the return data as is;
+ * library-style calls build a payload for a fixed selector.
+ */
+export function analyzeCallArguments(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  sitePcs: number[],
+  ctx: TraceContext = {}
+): Map<number, CallArguments> {
+  const result = new Map<number, CallArguments>();
+
+  for (const sitePc of sitePcs) {
+    const state = stateAtPC(cfg, blockStates, sitePc, ctx);
+    if (!state) continue;
+
+    const operand = (index: number): StackExpression =>
+      simplifyExpression(state.stack[state.stack.length - 1 - index] ?? { kind: "Unknown" });
+    const [gas, , inOffset, inSize, , outSize] = [0, 1, 2, 3, 4, 5].map(operand) as StackExpression[];
+
+    const gasLimit = literalToBigInt(gas ?? { kind: "Unknown" });
+    let input = classifyInput(inOffset ?? { kind: "Unknown" }, inSize ?? { kind: "Unknown" }, state.memory);
+    if (input.input === "constructed" || input.input === "unknown") {
+      const selector = findStoredSelector(cfg, blockStates, sitePc, ctx);
+      input = selector ? { input: "fixed-selector", selector } : input;
+    }
+    const outBytes = literalToBigInt(outSize ?? { kind: "Unknown" });
+
+    result.set(sitePc, {
+      gas: classifyGas(gas ?? { kind: "Unknown" }),
+      gasLimit: gasLimit !== null ? `0x${gasLimit.toString(16)}` : undefined,
+      ...input,
+      returnData: classifyReturnData(cfg, blockStates, sitePc, outBytes !== 0n, ctx)
+    });
+  }
+
+  return result;
+}
+
+function classifyGas(expr: StackExpression): GasArgument {
+  if (literalToBigInt(expr) !== null) return "fixed";
+  return usesOnlyGas(expr) ? "remaining" : "unknown";
+}
+
+// GAS, or GAS combined with constants (e.g. SUB(GAS, 10000) to keep a reserve)
+function usesOnlyGas(expr: StackExpression): boolean {
+  if (expr.kind === "Environment") return expr.source === "GAS";
+  if (expr.kind !== "Op") return false;
+  return expr.args.some(usesOnlyGas) && expr.args.every((arg) => usesOnlyGas(arg) || literalToBigInt(arg) !== null);
+}
+
+function classifyInput(
+  offset: StackExpression,
+  size: StackExpression,
+  memory: Map<number, StackExpression>
+): { input: CallInput; selector?: string } {
+  if (literalToBigInt(size) === 0n) {
+    return { input: "empty" };
+  }
+
+  const start = literalToBigInt(offset);
+  const firstWord = start !== null ? memory.get(Number(start)) : undefined;
+
+  if (size.kind === "Environment" && size.source === "CALLDATASIZE") {
+    // CALLDATACOPY(start, 0, CALLDATASIZE) leaves CALLDATALOAD(0) as the first word
+    const copied = !firstWord || (firstWord.kind === "Calldata" && literalToBigInt(firstWord.offsetExpr) === 0n);
+    return { input: copied ? "msg.data" : "constructed" };
+  }
+
+  const selector = firstWord ? leadingSelector(simplifyExpression(firstWord)) : null;
+  if (selector) {
+    return { input: "fixed-selector", selector };
+  }
+  return { input: size.kind === "Unknown" ? "unknown" : "constructed" };
+}
+
+/**
+ * Looks for the selector of a payload built at a non-constant offset (legacy
+ * solc's `abi.encodeWithSignature` writes OR(SHL(0xe0, selector), …) at the
+ * free memory pointer): an MSTORE of a word that is a bare selector on the way
+ * to the call, after any earlier call whose payload it could belong to.
+ */
+function findStoredSelector(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  sitePc: number,
+  ctx: TraceContext
+): string | null {
+  const siteBlock = getBlockContaining(cfg, sitePc);
+  if (!siteBlock) return null;
+
+  const seen = new Set<number>([siteBlock.startPc]);
+  const queue: Array<{ blockPc: number; beforePc: number }> = [{ blockPc: siteBlock.startPc, beforePc: sitePc }];
+
+  while (queue.length > 0 && seen.size <= MAX_SELECTOR_BLOCKS) {
+    const item = queue.shift();
+    const block = item ? cfg.blocks.get(item.blockPc) : undefined;
+    if (!item || !block) continue;
+
+    let crossedCall = false;
+    const instructions = block.instructions.filter((instr) => instr.pc < item.beforePc).reverse();
+    for (const instr of instructions) {
+      if (RETURNDATA_WRITERS.has(instr.op)) {
+        crossedCall = true;
+        break;
+      }
+      if (instr.op === "MSTORE") {
+        // MSTORE(offset, value)
+        const stack = stateAtPC(cfg, blockStates, instr.pc, ctx)?.stack ?? [];
+        const selector = selectorWord(simplifyExpression(stack[stack.length - 2] ?? { kind: "Unknown" }));
+        if (selector) return selector;
+      }
+    }
+
+    if (crossedCall) continue;
+    for (const predPc of block.predecessors) {
+      if (!seen.has(predPc)) {
+        seen.add(predPc);
+        queue.push({ blockPc: predPc, beforePc: Number.MAX_SAFE_INTEGER });
+      }
+    }
+  }
+
+  return null;
+}
+
+// Exactly a selector in the top 4 bytes, possibly OR'd into the word it is written over
+function selectorWord(word: StackExpression): string | null {
+  const candidates = word.kind === "Op" && word.op === "OR" ? word.args : [word];
+  for (const candidate of candidates) {
+    const value = literalToBigInt(candidate);
+    if (value !== null && value !== 0n && value % (1n << 224n) === 0n && value >> 256n === 0n) {
+      return `0x${(value >> 224n).toString(16).padStart(8, "0")}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Follows the code after the call until the return data is replaced by
+ * another call: it is "returned" when a RETURN of a non-constant size follows
+ * a copy of it on the same path (`returndatacopy` + `return(0, returndatasize())`).
+ */
+function classifyReturnData(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  sitePc: number,
+  copiedByCall: boolean,
+  ctx: TraceContext
+): CallArguments["returnData"] {
+  const siteBlock = getBlockContaining(cfg, sitePc);
+  const siteState = stateAtPC(cfg, blockStates, sitePc, ctx);
+  if (!siteBlock || !siteState) return copiedByCall ? "copied" : "discarded";
+
+  // Each path replays its blocks from the call on, so a pointer DUP'd from the RETURNDATACOPY to
+  // the RETURN is the same value even when nothing is known about it (e.g. the free memory
+  // pointer). A block is visited once per copy state: not copied, copied, or copied whole to a
+  // destination
+  let anyCopied = copiedByCall;
+  let returned = false;
+  const visitKey = (blockPc: number, copied: boolean, destination?: StackExpression): string =>
+    `${blockPc}:${copied}:${destination ? hashExpression(destination) : ""}`;
+  const seen = new Set<string>([visitKey(siteBlock.startPc, copiedByCall)]);
+  const queue: Array<{
+    blockPc: number;
+    fromPc: number;
+    copied: boolean;
+    destination?: StackExpression; // Where the whole return data buffer was copied to
+    state: BlockState;
+  }> = [{ blockPc: siteBlock.startPc, fromPc: sitePc, copied: copiedByCall, state: siteState }];
+
+  while (queue.length > 0 && seen.size <= MAX_RETURN_BLOCKS) {
+    const item = queue.shift();
+    const block = item ? cfg.blocks.get(item.blockPc) : undefined;
+    if (!item || !block) continue;
+
+    let { copied, destination } = item;
+    const { stack, memory } = item.state;
+    const operand = (index: number): StackExpression =>
+      simplifyExpression(stack[stack.length - 1 - index] ?? { kind: "Unknown" });
+    let live = true;
+    for (const instr of block.instructions) {
+      if (instr.pc < item.fromPc) continue;
+      if (instr.op === "RETURNDATACOPY") {
+        // RETURNDATACOPY(destOffset, offset, size)
+        copied = true;
+        anyCopied = true;
+        destination = literalToBigInt(operand(1)) === 0n && isReturndatasize(operand(2)) ? operand(0) : undefined;
+      } else if (instr.op === "RETURN" && destination) {
+        // RETURN(offset, size): the whole buffer, from where it was copied
+        returned = returned || (isReturndatasize(operand(1)) && expressionsEqual(operand(0), destination));
+      }
+      if ((RETURNDATA_WRITERS.has(instr.op) && instr.pc !== sitePc) || haltsExecution(instr.op)) {
+        live = false;
+        break;
+      }
+      applyInstructionToStack(instr.op, instr.pushData, stack, memory, ctx);
+    }
+
+    if (!live) continue;
+    for (const succPc of block.successors) {
+      const key = visitKey(succPc, copied, destination);
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push({
+          blockPc: succPc,
+          fromPc: 0,
+          copied,
+          destination,
+          state: { stack: [...stack], memory: new Map(memory) }
+        });
+      }
+    }
+  }
+
+  if (returned) return "returned";
+  return anyCopied ? "copied" : "discarded";
+}
+
+function isReturndatasize(expr: StackExpression): boolean {
+  return expr.kind === "Environment" && expr.source === "RETURNDATASIZE";
+}
+
+export function describeCallArguments(args: CallArguments, functionSignatures?: Record<string, string>): string {
+  const gas =
+    args.gas === "remaining"
+      ? "all remaining gas"
+      : args.gas === "fixed"
+        ? `gas limit ${args.gasLimit ?? "?"}`
+        : "computed gas";
+  const input: Record<CallInput, string> = {
+    "msg.data": "forwards msg.data",
+    "fixed-selector":
+      args.selector && functionSignatures?.[args.selector]
+        ? `calls ${describeSelector(args.selector, functionSignatures)}`
+        : `calls selector ${args.selector ?? "?"}`,
+    constructed: "sends a constructed payload",
+    empty: "sends no calldata",
+    unknown: "sends unknown input"
+  };
+  return `${input[args.input]} with ${gas}; return data ${args.returnData}`;
+}
@@ -0,0 +1,59 @@
+import { AsmItem, assemble } from "../testing/assembler";
+import { buildCFG, ControlFlowGraph, getBlockContaining } from "./cfg";
+import { decodeBytecode } from "./opcodes";
+
+function cfgOf(items: AsmItem[]): ControlFlowGraph {
+  return buildCFG(decodeBytecode(assemble(items)));
+}
+
+function pcOf(cfg: ControlFlowGraph, op: string, nth = 0): number {
+  const pcs = [...cfg.blocks.values()].flatMap((block) => block.instructions).filter((i) => i.op === op).map((i) => i.pc);
+  return pcs[nth] ?? -1;
+}
+
+function successorsOf(cfg: ControlFlowGraph, pc: number): number[] {
+  return [...(getBlockContaining(cfg, pc)?.successors ?? [])].sort((a, b) => a - b);
+}
+
+describe("buildCFG", () => {
+  it("resolves a pushed jump target", () => {
+    const cfg = cfgOf([{ ref: "end" }, "JUMP", "INVALID", { label: "end" }, "STOP"]);
+    expect(successorsOf(cfg, 0)).toEqual([5]);
+    expect(cfg.unresolvedJumps).toEqual([]);
+    expect(cfg.reachable.has(4)).toBe(false);
+  });
+
+  it("gives a JUMPI its target and its fallthrough", () => {
+    const cfg = cfgOf(["PUSH0", "CALLDATALOAD", { ref: "yes" }, "JUMPI", "STOP", { label: "yes" }, "STOP"]);
+    const jumpi = pcOf(cfg, "JUMPI");
+    expect(successorsOf(cfg, jumpi)).toEqual([jumpi + 1, jumpi + 2]);
+  });
+
+  it("resolves the return of a shared internal function to every caller", () => {
+    // Two calls push their return address, then jump to the helper, which jumps back
+    const cfg = cfgOf([
+      { ref: "back1" }, { ref: "helper" }, "JUMP",
+      { label: "back1" }, { ref: "back2" }, { ref: "helper" }, "JUMP",
+      { label: "back2" }, "STOP",
+      { label: "helper" }, "JUMP"
+    ]);
+    const helperReturn = pcOf(cfg, "JUMP", 2);
+    const [back1, back2] = [pcOf(cfg, "JUMPDEST", 0), pcOf(cfg, "JUMPDEST", 1)];
+    expect(successorsOf(cfg, helperReturn)).toEqual([back1, back2]);
+    expect(cfg.unresolvedJumps).toEqual([]);
+  });
+
+  it("reports a jump to a value taken from calldata as unresolved", () => {
+    const cfg = cfgOf(["PUSH0", "CALLDATALOAD", "JUMP", { label: "somewhere" }, "STOP"]);
+    expect(cfg.unresolvedJumps).toEqual([pcOf(cfg, "JUMP")]);
+  });
+});
+
+describe("getBlockContaining", () => {
+  it("finds the block holding a pc inside it", () => {
+    const cfg = cfgOf([{ push: "0x01" }, { ref: "end" }, "JUMP", { label: "end" }, "POP", "STOP"]);
+    expect(getBlockContaining(cfg, 2)?.startPc).toBe(0);
+    expect(getBlockContaining(cfg, 8)?.startPc).toBe(6);
+    expect(getBlockContaining(cfg, 100)).toBeNull();
+  });
+});
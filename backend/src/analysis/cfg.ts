@@ -1,4 +1,5 @@
 import { Opcode } from "../types/analysis";
+import { getOpcodeInfo, haltsExecution } from "./opcodes";
 
 export interface BasicBlock {
   id: string;
@@ -9,19 +10,25 @@ export interface BasicBlock {
   predecessors: number[]; // PC addresses of predecessor blocks
 }
 
+export interface BranchOutcome {
+  jumpiPc: number;
+  taken: boolean; // true: the jump was taken (condition non-zero); false: it fell through
+}
+
 export interface ControlFlowGraph {
   blocks: Map<number, BasicBlock>; // keyed by startPc
+  blockStarts: number[]; // startPcs in ascending order, for looking up the block holding a pc
   entryBlock: BasicBlock | null;
+  unresolvedJumps: number[]; // PCs of reachable JUMP/JUMPI whose target could not be determined
+  reachable: Set<number>; // startPcs of blocks reachable from the entry block
+  // JUMPI outcomes that hold on every path from the entry into a block, by block startPc,
+  // per calling context and encoded as jumpiPc * 2 + taken; read them with `getPathConditions`
+  branchFacts: Map<number, Array<Set<number>>>;
 }
 
-const TERMINATORS = new Set([
-  "STOP",
-  "RETURN",
-  "REVERT",
-  "SELFDESTRUCT",
-  "JUMP",
-  "JUMPI"
-]);
+function isTerminator(op: string): boolean {
+  return op === "JUMP" || op === "JUMPI" || haltsExecution(op);
+}
 
 export function buildCFG(instructions: Opcode[]): ControlFlowGraph {
   const blocks = new Map<number, BasicBlock>();
@@ -38,7 +45,7 @@ export function buildCFG(instructions: Opcode[]): ControlFlowGraph {
       jumpTargets.add(instr.pc);
     }
 
-    if (TERMINATORS.has(instr.op)) {
+    if (isTerminator(instr.op)) {
       const nextPc = instructions[i + 1]?.pc;
       if (nextPc !== undefined) {
         leaders.add(nextPc);
@@ -46,18 +53,22 @@ export function buildCFG(instructions: Opcode[]): ControlFlowGraph {
     }
   }
 
-  // Second pass: build basic blocks
+  // Second pass: build basic blocks, splitting the instructions (in pc order) at each leader
   const sortedLeaders = Array.from(leaders).sort((a, b) => a - b);
+  const lastPc = instructions[instructions.length - 1]?.pc ?? 0;
+  let next = 0;
 
   for (let i = 0; i < sortedLeaders.length; i += 1) {
     const startPc = sortedLeaders[i] ?? 0;
-    const endPc = i + 1 < sortedLeaders.length ? (sortedLeaders[i + 1] ?? 0) - 1 : instructions.length - 1;
+    const endPc = i + 1 < sortedLeaders.length ? (sortedLeaders[i + 1] ?? 0) - 1 : lastPc;
 
     const blockInstrs: Opcode[] = [];
-    for (const instr of instructions) {
-      if (instr.pc >= startPc && instr.pc <= endPc) {
+    while (next < instructions.length && (instructions[next]?.pc ?? 0) <= endPc) {
+      const instr = instructions[next] as Opcode;
+      if (instr.pc >= startPc) {
         blockInstrs.push(instr);
       }
+      next += 1;
     }
 
     const block: BasicBlock = {
@@ -72,53 +83,410 @@ export function buildCFG(instructions: Opcode[]): ControlFlowGraph {
     blocks.set(startPc, block);
   }
 
-  // Third pass: connect blocks (build edges)
-  for (const block of blocks.values()) {
+  // Third pass: connect fallthrough edges (JUMPI falls through when the condition is zero).
+  // The next instruction always starts the next block
+  for (let i = 0; i + 1 < sortedLeaders.length; i += 1) {
+    const block = blocks.get(sortedLeaders[i] ?? 0);
+    const nextBlock = blocks.get(sortedLeaders[i + 1] ?? 0);
+    const lastInstr = block?.instructions[block.instructions.length - 1];
+    if (!block || !nextBlock || !lastInstr || nextBlock.instructions.length === 0) continue;
+
+    if (lastInstr.op === "JUMPI" || !isTerminator(lastInstr.op)) {
+      addEdge(block, nextBlock);
+    }
+  }
+
+  // Fourth pass: resolve JUMP/JUMPI targets by propagating constant jump destinations
+  // through the stack (covers PUSH-before-JUMP and return addresses of internal calls)
+  const flow = propagateJumpTargets(blocks, jumpTargets, 0, [], branchFactsDomain);
+  for (const [fromPc, targets] of flow.jumpEdges.entries()) {
+    const from = blocks.get(fromPc);
+    if (!from) continue;
+    for (const targetPc of targets) {
+      const to = blocks.get(targetPc);
+      if (to) {
+        addEdge(from, to);
+      }
+    }
+  }
+
+  return {
+    blocks,
+    blockStarts: sortedLeaders,
+    entryBlock: blocks.get(0) ?? null,
+    unresolvedJumps: Array.from(flow.unresolved).sort((a, b) => a - b),
+    reachable: flow.visited,
+    branchFacts: flow.values
+  };
+}
+
+// Binary search for the last block starting at or before `pc`
+export function getBlockContaining(cfg: ControlFlowGraph, pc: number): BasicBlock | null {
+  const starts = cfg.blockStarts;
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if ((starts[mid] ?? 0) <= pc) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  const block = cfg.blocks.get(starts[lo] ?? -1);
+  return block && pc >= block.startPc && pc <= block.endPc ? block : null;
+}
+
+/**
+ * The CFG of the instructions before `end`, without building it again: blocks
+ * from `end` on are dropped and one straddling it is cut short. Only valid
+ * when no reachable instruction lies past `end` (embedded data after the code),
+ * so jump resolution and path conditions are unchanged.
+ */
+export function truncateCFG(cfg: ControlFlowGraph, end: number): ControlFlowGraph {
+  const blocks = new Map<number, BasicBlock>();
+  const blockStarts = cfg.blockStarts.filter((startPc) => startPc < end);
+  for (const startPc of blockStarts) {
+    const block = cfg.blocks.get(startPc);
+    if (!block) continue;
+    if (block.endPc < end && block.successors.every((pc) => pc < end)) {
+      blocks.set(startPc, block);
+      continue;
+    }
+
+    const instructions = block.instructions.filter((instr) => instr.pc < end);
+    blocks.set(startPc, {
+      ...block,
+      endPc: Math.min(block.endPc, instructions[instructions.length - 1]?.pc ?? startPc),
+      instructions,
+      successors: block.successors.filter((pc) => pc < end)
+    });
+  }
+
+  return { ...cfg, blocks, blockStarts, entryBlock: blocks.get(0) ?? null };
+}
+
+// First byte after the last instruction (and its immediate) of any reachable block
+export function findReachableCodeEnd(cfg: ControlFlowGraph): number {
+  let end = 0;
+  for (const blockPc of cfg.reachable) {
+    const last = cfg.blocks.get(blockPc)?.instructions.slice(-1)[0];
+    if (last) {
+      const immediateBytes = last.pushData && last.op !== "PUSH0" ? (last.pushData.length - 2) / 2 : 0;
+      end = Math.max(end, last.pc + 1 + immediateBytes);
+    }
+  }
+  return end;
+}
+
+function addEdge(from: BasicBlock, to: BasicBlock): void {
+  if (!from.successors.includes(to.startPc)) {
+    from.successors.push(to.startPc);
+  }
+  if (!to.predecessors.includes(from.startPc)) {
+    to.predecessors.push(from.startPc);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Jump target propagation
+// ---------------------------------------------------------------------------
+
+// Possible constant values of a stack slot; null means "not a known constant"
+type JumpValue = Set<number> | null;
+
+// Largest set of candidate targets tracked per slot before giving up (a shared internal
+// function returns to every one of its call sites)
+const MAX_JUMP_TARGETS = 64;
+
+// Distinct entry stacks analysed separately per block before they are joined. Keeping
+// callers' stacks apart lets a shared internal function return only to its own caller's
+// continuation, which preserves the outer return addresses deeper in the stack.
+const MAX_CONTEXTS_PER_BLOCK = 64;
+
+// PUSHed values above this cannot be code offsets (EIP-170/3860 size limits)
+const MAX_CODE_OFFSET = 0xffff;
+
+/**
+ * A property of execution paths computed alongside jump-target propagation,
+ * separately for each calling context of a block. `join` merges the values of
+ * paths that meet in the same context and must be monotone so the propagation
+ * terminates; `branch` gives the value along one outcome of a JUMPI.
+ */
+export interface PathDomain<T> {
+  initial: T;
+  join(a: T, b: T): T;
+  equals(a: T, b: T): boolean;
+  branch(value: T, jumpiPc: number, taken: boolean): T;
+}
+
+interface JumpFlowResult<T> {
+  jumpEdges: Map<number, Set<number>>; // block startPc -> resolved jump destinations
+  unresolved: Set<number>; // PCs of reachable jumps with an unknown target
+  visited: Set<number>; // blocks reached from the start block
+  values: Map<number, T[]>; // block startPc -> path property per calling context
+}
+
+interface BlockContexts<T> {
+  stacks: Map<string, JumpValue[]>;
+  values: Map<string, T>; // per stack key
+  joined: JumpValue[] | null; // set once the context limit is exceeded
+  joinedValue: T | null;
+}
+
+function propagateJumpTargets<T>(
+  blocks: Map<number, BasicBlock>,
+  jumpDests: Set<number>,
+  startPc: number,
+  startStack: JumpValue[],
+  domain: PathDomain<T>
+): JumpFlowResult<T> {
+  const contexts = new Map<number, BlockContexts<T>>();
+  const jumpEdges = new Map<number, Set<number>>();
+  const unresolved = new Set<number>();
+  // key is null for a block's joined context
+  const worklist: Array<{ pc: number; stack: JumpValue[]; key: string | null }> = [];
+
+  const enqueue = (pc: number, stack: JumpValue[], value: T): void => {
+    let ctx = contexts.get(pc);
+    if (!ctx) {
+      ctx = { stacks: new Map(), values: new Map(), joined: null, joinedValue: null };
+      contexts.set(pc, ctx);
+    }
+
+    if (ctx.joined) {
+      const joined = joinJumpStacks(ctx.joined, stack);
+      const joinedValue = ctx.joinedValue === null ? value : domain.join(ctx.joinedValue, value);
+      if (
+        !jumpStacksEqual(ctx.joined, joined) ||
+        ctx.joinedValue === null ||
+        !domain.equals(ctx.joinedValue, joinedValue)
+      ) {
+        ctx.joined = joined;
+        ctx.joinedValue = joinedValue;
+        worklist.push({ pc, stack: joined, key: null });
+      }
+      return;
+    }
+
+    const key = jumpStackKey(stack);
+    const known = ctx.values.get(key);
+    if (known !== undefined) {
+      // Same stack seen before: only re-run if the path property changed
+      const merged = domain.join(known, value);
+      if (!domain.equals(known, merged)) {
+        ctx.values.set(key, merged);
+        worklist.push({ pc, stack: ctx.stacks.get(key) ?? stack, key });
+      }
+      return;
+    }
+    if (ctx.stacks.size < MAX_CONTEXTS_PER_BLOCK) {
+      ctx.stacks.set(key, stack);
+      ctx.values.set(key, value);
+      worklist.push({ pc, stack, key });
+      return;
+    }
+
+    let joined = stack;
+    let joinedValue = value;
+    for (const [otherKey, other] of ctx.stacks.entries()) {
+      joined = joinJumpStacks(joined, other);
+      const otherValue = ctx.values.get(otherKey);
+      if (otherValue !== undefined) {
+        joinedValue = domain.join(joinedValue, otherValue);
+      }
+    }
+    ctx.joined = joined;
+    ctx.joinedValue = joinedValue;
+    worklist.push({ pc, stack: joined, key: null });
+  };
+
+  enqueue(startPc, startStack, domain.initial);
+
+  // FIFO through a moving head: shift() would copy the remaining queue on every item
+  for (let head = 0; head < worklist.length; head += 1) {
+    const item = worklist[head];
+    if (!item) continue;
+    const block = blocks.get(item.pc);
+    const ctx = contexts.get(item.pc);
+    if (!block || !ctx) continue;
+    // A joined state may have been widened again since this item was queued
+    if (ctx.joined && (item.key !== null || ctx.joined !== item.stack)) continue;
+    const value = (item.key === null ? ctx.joinedValue : ctx.values.get(item.key)) ?? domain.initial;
+
+    const stack = [...item.stack];
+    let jumpTarget: JumpValue | undefined;
     const lastInstr = block.instructions[block.instructions.length - 1];
-    if (!lastInstr) continue;
-
-    if (lastInstr.op === "JUMP") {
-      // Unconditional jump - target is on stack, we can't statically determine it
-      // For now, mark as having unknown successors (could be improved with constant propagation)
-    } else if (lastInstr.op === "JUMPI") {
-      // Conditional jump - fallthrough + jump target
-      const nextPc = instructions.find((instr) => instr.pc > lastInstr.pc)?.pc;
-      if (nextPc !== undefined) {
-        const nextBlock = findBlockContaining(blocks, nextPc);
-        if (nextBlock) {
-          block.successors.push(nextBlock.startPc);
-          nextBlock.predecessors.push(block.startPc);
+
+    for (const instr of block.instructions) {
+      if (instr === lastInstr && (instr.op === "JUMP" || instr.op === "JUMPI")) {
+        jumpTarget = stack.length > 0 ? (stack[stack.length - 1] ?? null) : null;
+      }
+      applyJumpValueTransfer(instr, stack);
+    }
+
+    // JUMPI falls through when the condition is zero
+    const fallsThrough = lastInstr !== undefined && (lastInstr.op === "JUMPI" || !isTerminator(lastInstr.op));
+    const fallthrough = fallsThrough ? blocks.get(block.endPc + 1) : undefined;
+    const successors = fallthrough ? [fallthrough.startPc] : [];
+    const targets = new Set<number>();
+
+    if (lastInstr && jumpTarget !== undefined) {
+      if (jumpTarget === null) {
+        unresolved.add(lastInstr.pc);
+      } else {
+        const edges = jumpEdges.get(item.pc) ?? new Set<number>();
+        for (const target of jumpTarget) {
+          // Jumps to non-JUMPDEST offsets revert at runtime and have no successor
+          if (jumpDests.has(target)) {
+            edges.add(target);
+            targets.add(target);
+            successors.push(target);
+          }
         }
+        jumpEdges.set(item.pc, edges);
       }
-      // Jump target would be on stack - mark as unknown for now
-    } else if (!TERMINATORS.has(lastInstr.op)) {
-      // Fallthrough
-      const nextPc = instructions.find((instr) => instr.pc > lastInstr.pc)?.pc;
-      if (nextPc !== undefined) {
-        const nextBlock = findBlockContaining(blocks, nextPc);
-        if (nextBlock) {
-          block.successors.push(nextBlock.startPc);
-          nextBlock.predecessors.push(block.startPc);
+    }
+
+    for (const succPc of successors) {
+      let succValue = value;
+      if (lastInstr?.op === "JUMPI") {
+        const isFallthrough = succPc === fallthrough?.startPc;
+        // A target that is also the fallthrough is reached either way: nothing is learned
+        if (!(isFallthrough && targets.has(succPc))) {
+          succValue = domain.branch(value, lastInstr.pc, !isFallthrough);
         }
       }
+      enqueue(succPc, stack, succValue);
     }
   }
 
-  return {
-    blocks,
-    entryBlock: blocks.get(0) ?? null
-  };
+  const values = new Map<number, T[]>();
+  for (const [pc, ctx] of contexts.entries()) {
+    // A joined context covers every path that reached the block, including earlier contexts
+    values.set(pc, ctx.joinedValue !== null ? [ctx.joinedValue] : Array.from(ctx.values.values()));
+  }
+
+  return { jumpEdges, unresolved, visited: new Set(contexts.keys()), values };
 }
 
-export function getBlockContaining(blocks: Map<number, BasicBlock>, pc: number): BasicBlock | null {
-  for (const block of blocks.values()) {
-    if (pc >= block.startPc && pc <= block.endPc) {
-      return block;
+/**
+ * Computes a path property for every reachable block of a built CFG, with the
+ * same context sensitivity as its jump-target resolution (one value per
+ * calling context of the block, keyed by block startPc).
+ */
+export function propagatePathProperty<T>(cfg: ControlFlowGraph, domain: PathDomain<T>): Map<number, T[]> {
+  const jumpDests = new Set<number>();
+  for (const block of cfg.blocks.values()) {
+    if (block.instructions[0]?.op === "JUMPDEST") {
+      jumpDests.add(block.startPc);
     }
   }
-  return null;
+  return propagateJumpTargets(cfg.blocks, jumpDests, 0, [], domain).values;
 }
 
-function findBlockContaining(blocks: Map<number, BasicBlock>, pc: number): BasicBlock | null {
-  return getBlockContaining(blocks, pc);
+// Branch outcomes holding on every path, as a "must" set (intersected at joins) of
+// jumpiPc * 2 + (taken ? 1 : 0). Being per context, a check made before calling a
+// shared internal function still holds when it returns.
+const branchFactsDomain: PathDomain<Set<number>> = {
+  initial: new Set(),
+  join: (a, b) => new Set(Array.from(a).filter((fact) => b.has(fact))),
+  equals: (a, b) => a.size === b.size,
+  branch: (facts, jumpiPc, taken) => new Set(facts).add(jumpiPc * 2 + (taken ? 1 : 0))
+};
+
+/**
+ * JUMPI outcomes that hold on every path from the entry into the block at
+ * `blockPc`, listed separately for each distinct calling context the block was
+ * analysed in. Decoded on demand: most blocks are never asked about.
+ */
+export function getPathConditions(cfg: ControlFlowGraph, blockPc: number): BranchOutcome[][] {
+  const distinct = new Map<string, BranchOutcome[]>();
+  for (const facts of cfg.branchFacts.get(blockPc) ?? []) {
+    const sorted = Array.from(facts).sort((a, b) => a - b);
+    distinct.set(
+      sorted.join(","),
+      sorted.map((fact) => ({ jumpiPc: Math.floor(fact / 2), taken: fact % 2 === 1 }))
+    );
+  }
+  return Array.from(distinct.values());
+}
+
+function applyJumpValueTransfer(instr: Opcode, stack: JumpValue[]): void {
+  if (instr.op.startsWith("PUSH")) {
+    const value = parseInt(instr.pushData ?? "0x00", 16);
+    stack.push(Number.isFinite(value) && value <= MAX_CODE_OFFSET ? new Set([value]) : null);
+    return;
+  }
+
+  if (instr.op.startsWith("DUP")) {
+    const n = parseInt(instr.op.slice(3), 10);
+    const idx = stack.length - n;
+    stack.push(idx >= 0 ? (stack[idx] ?? null) : null);
+    return;
+  }
+
+  if (instr.op.startsWith("SWAP")) {
+    const n = parseInt(instr.op.slice(4), 10);
+    // Slots below the tracked stack are unknown values
+    while (stack.length < n + 1) {
+      stack.unshift(null);
+    }
+    const top = stack.length - 1;
+    const other = top - n;
+    const tmp = stack[top] ?? null;
+    stack[top] = stack[other] ?? null;
+    stack[other] = tmp;
+    return;
+  }
+
+  const info = getOpcodeInfo(instr.op);
+  const stackIn = info?.stackIn ?? 0;
+  const stackOut = info?.stackOut ?? 0;
+  stack.length = Math.max(0, stack.length - stackIn);
+  for (let i = 0; i < stackOut; i += 1) {
+    stack.push(null);
+  }
+}
+
+/**
+ * Joins two abstract stacks aligned at the top. Slots that exist in only one
+ * stack are dropped, since the values below the shorter stack are unknown anyway.
+ */
+function joinJumpStacks(a: JumpValue[], b: JumpValue[]): JumpValue[] {
+  const height = Math.min(a.length, b.length);
+  const joined: JumpValue[] = [];
+  for (let i = height; i > 0; i -= 1) {
+    const va = a[a.length - i] ?? null;
+    const vb = b[b.length - i] ?? null;
+    if (va === null || vb === null) {
+      joined.push(null);
+      continue;
+    }
+    const union = new Set([...va, ...vb]);
+    joined.push(union.size > MAX_JUMP_TARGETS ? null : union);
+  }
+  return joined;
+}
+
+function jumpStackKey(stack: JumpValue[]): string {
+  return stack.map((v) => (v === null ? "?" : Array.from(v).sort((a, b) => a - b).join("|"))).join(",");
+}
+
+function jumpStacksEqual(a: JumpValue[], b: JumpValue[]): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i += 1) {
+    const va = a[i] ?? null;
+    const vb = b[i] ?? null;
+    if (va === null || vb === null) {
+      if (va !== vb) return false;
+      continue;
+    }
+    if (va.size !== vb.size) return false;
+    for (const v of va) {
+      if (!vb.has(v)) return false;
+    }
+  }
+  return true;
 }
@@ -1,47 +1,167 @@
 import crypto from "crypto";
+import { getBytes, hexlify } from "ethers";
 import {
+  ByteRegion,
+  BytecodeKind,
+  CompilerMetadata,
   DelegatecallSite,
+  DelegatecallSiteReport,
   DelegatecallSurfaceReport,
-  RiskLevel,
-  StackExpression,
-  TargetClassification,
-  TargetType
+  Hardfork,
+  Opcode,
+  RiskRule,
+  StackExpression
 } from "../types/analysis";
-import { buildCFG, getBlockContaining } from "./cfg";
+import { analyzeCallArguments } from "./callArguments";
+import { buildCFG, ControlFlowGraph, findReachableCodeEnd, getBlockContaining, truncateCFG } from "./cfg";
+import { findEntryPoints, recoverDispatcher } from "./dispatcher";
+import { detectAccessGuards } from "./guards";
+import { locateRuntimeCode } from "./initcode";
+import { parseCompilerMetadata } from "./metadata";
 import { decodeBytecode } from "./opcodes";
+import { evaluateRiskRules, highestRisk } from "./riskRules";
+import { buildSignatureDatabase, nameSelectors, SignatureDatabase } from "./signatures";
+import { mapSourceLocations, SourceMapping } from "./sourceMap";
+import { analyzeSuccessChecks } from "./successCheck";
 import { classifyTarget } from "./targetClassifier";
+import { simplifyExpression } from "./expressionSimplifier";
 import { detectProxyPatterns, summarizeProxyPatterns } from "./proxyPatterns";
-import { traceStackAtPC } from "./stackTracer";
+import { applyInstructionToStack, BlockState, computeBlockStates, stateAtPC, TraceContext } from "./stackTracer";
 import { generateGraph } from "./graphGenerator";
 
 interface ScanOptions {
   contractAddress?: string;
   network?: string;
   useCFG?: boolean; // Enable CFG-based analysis (more accurate but slower)
+  hardfork?: Hardfork; // Opcode set to decode with (defaults to the latest supported fork)
+  kind?: BytecodeKind | "auto"; // Runtime (default) or creation code; "auto" detects initcode
+  riskRules?: RiskRule[]; // Replaces the built-in risk rules
+  sourceMap?: SourceMapping; // Locates the (runtime) sites in the Solidity source
+  initcodeSourceMap?: SourceMapping; // Locates constructor sites, for creation code
+  signatures?: SignatureDatabase; // Names the report's selectors; defaults to the bundled signatures
+}
+
+// Decoded code ready to scan: the metadata trailer and, when the CFG shows it unreachable, embedded
+// data are cut off
+interface CodeLayout {
+  decoded: Opcode[]; // Every instruction, as the source map counts them
+  instructions: Opcode[];
+  cfg: ControlFlowGraph | null; // Null for linear scans
+  compilerMetadata: CompilerMetadata | null;
+  excludedRegions: ByteRegion[];
+}
+
+interface CodeScan {
+  sites: DelegatecallSite[];
+  cfg: ControlFlowGraph | null;
+  unresolvedJumps?: number[];
+  compilerMetadata: CompilerMetadata | null;
+  excludedRegions: ByteRegion[];
 }
 
 export function analyzeBytecode(bytecode: string, opts: ScanOptions = {}): DelegatecallSurfaceReport {
-  const instructions = decodeBytecode(bytecode);
-  const useCFG = opts.useCFG !== false; // Default to true for better accuracy
+  const kind = opts.kind ?? "runtime";
+  const code = getBytes(bytecode.startsWith("0x") ? bytecode : `0x${bytecode}`);
+
+  if (kind === "runtime") {
+    return buildReport(bytecode, scanCode(bytecode, code, opts), opts);
+  }
+
+  // Creation code deploys whatever it RETURNs; find the runtime it copies out of itself.
+  // Constructor arguments follow the initcode when deploying, so its size is not known here.
+  // The CFG and block states found on the way are the ones the scan of the initcode needs
+  const initContext: TraceContext = { code, openEnded: true };
+  const layout = layoutCode(code, decodeBytecode(bytecode, { hardfork: opts.hardfork }), opts.useCFG !== false);
+  // Linear scans still locate the runtime on a CFG
+  const initCfg = layout.cfg ?? buildCFG(layout.instructions);
+  const initStates = computeBlockStates(initCfg, initContext);
+  const runtime = locateRuntimeCode(initCfg, code, initContext, initStates);
+  if (!runtime && kind === "auto") {
+    // Not creation code after all: the same CFG, traced as runtime code
+    return buildReport(bytecode, scanCode(bytecode, code, opts, { code }, layout), opts);
+  }
+  const scan = scanCode(bytecode, code, { ...opts, sourceMap: opts.initcodeSourceMap }, initContext, layout, initStates);
+  for (const site of scan.sites) {
+    // Initcode has no dispatcher; everything in it runs once, at deployment
+    site.entryPoints = ["constructor"];
+  }
+
+  const runtimeEnd = runtime ? runtime.offset + runtime.length : code.length;
+  const runtimeHex = hexlify(runtime ? code.slice(runtime.offset, runtimeEnd) : new Uint8Array());
+  const report = analyzeBytecode(runtimeHex, { ...opts, kind: "runtime" });
+
+  report.kind = "initcode";
+  report.initcode = {
+    bytecodeHash: hashBytecode(bytecode),
+    runtimeOffset: runtime?.offset,
+    runtimeLength: runtime?.length,
+    constructorArguments: runtimeEnd < code.length ? hexlify(code.slice(runtimeEnd)) : undefined,
+    delegatecallCount: scan.sites.length,
+    sites: toReportSites(scan.sites, opts.riskRules),
+    unresolvedJumps: scan.unresolvedJumps
+  };
+  report.functionSignatures = nameSelectors(
+    [...report.sites, ...report.initcode.sites],
+    opts.signatures ?? buildSignatureDatabase()
+  );
+
+  return report;
+}
+
+function layoutCode(code: Uint8Array, decoded: Opcode[], withCFG: boolean): CodeLayout {
+  // The CBOR metadata trailer is not code: decoding it yields phantom instructions
+  const compilerMetadata = parseCompilerMetadata(code);
+  const excludedRegions: ByteRegion[] = [];
+  let codeEnd = code.length;
+  if (compilerMetadata) {
+    codeEnd = compilerMetadata.offset;
+    excludedRegions.push({ start: compilerMetadata.offset, end: code.length, kind: "metadata" });
+  }
+  let instructions = decoded.filter((instr) => instr.pc < codeEnd);
+  if (!withCFG) {
+    return { decoded, instructions, cfg: null, compilerMetadata, excludedRegions };
+  }
+
+  let cfg = buildCFG(instructions);
+  // With every jump resolved, bytes past the last reachable instruction are embedded
+  // data (constants, strings); drop them so stray 0x5b/0xf4 bytes are not treated as code
+  const reachableEnd = cfg.unresolvedJumps.length === 0 ? findReachableCodeEnd(cfg) : codeEnd;
+  if (reachableEnd < codeEnd) {
+    excludedRegions.unshift({ start: reachableEnd, end: codeEnd, kind: "data" });
+    instructions = instructions.filter((instr) => instr.pc < reachableEnd);
+    cfg = truncateCFG(cfg, reachableEnd);
+  }
+  return { decoded, instructions, cfg, compilerMetadata, excludedRegions };
+}
 
+// `states` may be passed when the layout's CFG was already traced under `traceContext`
+function scanCode(
+  bytecode: string,
+  code: Uint8Array,
+  opts: ScanOptions,
+  traceContext: TraceContext = { code },
+  layout: CodeLayout = layoutCode(code, decodeBytecode(bytecode, { hardfork: opts.hardfork }), opts.useCFG !== false),
+  states?: Map<number, BlockState>
+): CodeScan {
+  const { decoded, instructions, cfg, compilerMetadata, excludedRegions } = layout;
   const sites: DelegatecallSite[] = [];
 
-  if (useCFG) {
-    // CFG-based analysis: more accurate for complex control flow
-    const cfg = buildCFG(instructions);
+  if (cfg) {
+    // CFG-based analysis: more accurate for complex control flow.
+    // One fixed point over the CFG serves every site
+    const blockStates = states ?? computeBlockStates(cfg, traceContext);
 
     for (const instr of instructions) {
       if (instr.op === "DELEGATECALL") {
-        // Trace stack backwards through CFG
-        const stack = traceStackAtPC(cfg, instr.pc);
+        const stack = stateAtPC(cfg, blockStates, instr.pc, traceContext)?.stack ?? [];
 
         // DELEGATECALL(gas, to, inOffset, inSize, outOffset, outSize)
         // Target address is at stack[-2] (second from top)
         const idx = stack.length - 2;
-        const targetExpr: StackExpression = idx >= 0 ? stack[idx] : { kind: "Unknown" };
+        const targetExpr = simplifyExpression(idx >= 0 ? stack[idx] : { kind: "Unknown" });
 
         const classification = classifyTarget(targetExpr);
-        const block = getBlockContaining(cfg.blocks, instr.pc);
+        const block = getBlockContaining(cfg, instr.pc);
 
         const site: DelegatecallSite = {
           id: `site-${instr.pc}`,
@@ -55,16 +175,45 @@ export function analyzeBytecode(bytecode: string, opts: ScanOptions = {}): Deleg
         sites.push(site);
       }
     }
+
+    const guards = detectAccessGuards(
+      cfg,
+      blockStates,
+      sites.map((site) => site.pc),
+      traceContext
+    );
+    const entryPoints = findEntryPoints(
+      cfg,
+      recoverDispatcher(cfg, blockStates, traceContext),
+      sites.map((site) => site.pc)
+    );
+    const successChecks = analyzeSuccessChecks(
+      cfg,
+      blockStates,
+      sites.map((site) => site.pc),
+      traceContext
+    );
+    const callArguments = analyzeCallArguments(
+      cfg,
+      blockStates,
+      sites.map((site) => site.pc),
+      traceContext
+    );
+    for (const site of sites) {
+      site.guards = guards.get(site.pc);
+      site.entryPoints = entryPoints.get(site.pc);
+      site.successCheck = successChecks.get(site.pc);
+      site.callArguments = callArguments.get(site.pc);
+    }
   } else {
     // Linear analysis: faster but less accurate for complex control flow
     const stack: StackExpression[] = [];
+    const memory = new Map<number, StackExpression>();
 
     for (const instr of instructions) {
-      applyInstructionToStack(instr.op, instr.pushData, stack);
-
       if (instr.op === "DELEGATECALL") {
         const idx = stack.length - 2;
-        const targetExpr: StackExpression = idx >= 0 ? stack[idx] : { kind: "Unknown" };
+        const targetExpr = simplifyExpression(idx >= 0 ? stack[idx] : { kind: "Unknown" });
 
         const classification = classifyTarget(targetExpr);
 
@@ -79,153 +228,81 @@ export function analyzeBytecode(bytecode: string, opts: ScanOptions = {}): Deleg
 
         sites.push(site);
       }
+
+      applyInstructionToStack(instr.op, instr.pushData, stack, memory, traceContext);
+    }
+  }
+
+  if (opts.sourceMap) {
+    // The source map counts every instruction, so it is walked over the full decoding
+    const locations = mapSourceLocations(
+      decoded,
+      sites.map((site) => site.pc),
+      opts.sourceMap
+    );
+    for (const site of sites) {
+      site.source = locations.get(site.pc);
     }
   }
 
-  // Pattern detection (proxy, minimal proxy, diamond, etc.)
-  const enrichedSites = detectProxyPatterns(bytecode, sites);
-
-  const reportSites = enrichedSites.map((s) => ({
-    id: s.id,
-    pc: s.pc,
-    classification: s.classification,
-    pattern: s.patternMatch ?? null,
-    risk: classifyRisk(s.classification, s.patternMatch),
-    notes: []
-  }));
-
-  const overallRisk: RiskLevel | undefined =
-    reportSites.length > 0
-      ? reportSites
-          .map((s) => s.risk)
-          .reduce<RiskLevel>((acc, r) => {
-            const order: RiskLevel[] = ["low", "medium", "high", "unknown"];
-            return order.indexOf(r) > order.indexOf(acc) ? r : acc;
-          }, "low")
-      : undefined;
+  return {
+    // Pattern detection (proxy, minimal proxy, diamond, etc.)
+    sites: detectProxyPatterns(bytecode, sites, instructions),
+    cfg,
+    unresolvedJumps: cfg?.unresolvedJumps,
+    compilerMetadata,
+    excludedRegions
+  };
+}
+
+function buildReport(bytecode: string, scan: CodeScan, opts: ScanOptions): DelegatecallSurfaceReport {
+  const reportSites = toReportSites(scan.sites, opts.riskRules);
+
+  const overallRisk = highestRisk(reportSites.map((s) => s.risk));
 
   // Generate graph output
-  const graph = generateGraph(opts.contractAddress, enrichedSites);
+  const graph = generateGraph(opts.contractAddress, reportSites);
 
   const report: DelegatecallSurfaceReport = {
     contractAddress: opts.contractAddress,
     network: opts.network,
-    bytecodeHash: crypto.createHash("sha256").update(bytecode).digest("hex"),
-    delegatecallCount: sites.length,
+    kind: "runtime",
+    bytecodeHash: hashBytecode(bytecode),
+    delegatecallCount: scan.sites.length,
     overallRisk,
     sites: reportSites,
-    proxiesDetected: summarizeProxyPatterns(enrichedSites),
+    functionSignatures: nameSelectors(reportSites, opts.signatures ?? buildSignatureDatabase()),
+    proxiesDetected: summarizeProxyPatterns(scan.sites),
+    unresolvedJumps: scan.unresolvedJumps,
+    compilerMetadata: scan.compilerMetadata,
+    excludedRegions: scan.excludedRegions,
     graph
   };
 
   return report;
 }
 
-function applyInstructionToStack(op: string, pushData: string | undefined, stack: StackExpression[]): void {
-  const pop = (n: number): StackExpression[] => {
-    const res: StackExpression[] = [];
-    for (let i = 0; i < n; i += 1) {
-      res.unshift(stack.pop() ?? { kind: "Unknown" });
-    }
-    return res;
-  };
-
-  if (op.startsWith("PUSH")) {
-    const value = pushData ?? "0x";
-    stack.push({ kind: "Literal", value });
-    return;
-  }
-
-  if (op.startsWith("DUP")) {
-    const n = parseInt(op.slice(3), 10);
-    const idx = stack.length - n;
-    stack.push(idx >= 0 ? stack[idx] : { kind: "Unknown" });
-    return;
-  }
-
-  if (op.startsWith("SWAP")) {
-    const n = parseInt(op.slice(4), 10);
-    const top = stack.length - 1;
-    const other = stack.length - 1 - n;
-    if (top >= 0 && other >= 0) {
-      const tmp = stack[top];
-      stack[top] = stack[other];
-      stack[other] = tmp;
-    }
-    return;
-  }
-
-  switch (op) {
-    case "CALLDATALOAD": {
-      const [offsetExpr] = pop(1);
-      stack.push({ kind: "Calldata", offsetExpr });
-      break;
-    }
-    case "SLOAD": {
-      const [slotExpr] = pop(1);
-      stack.push({ kind: "Storage", slotExpr });
-      break;
-    }
-    case "CALLER": {
-      stack.push({ kind: "Environment", source: "CALLER" });
-      break;
-    }
-    case "ADDRESS": {
-      stack.push({ kind: "Environment", source: "ADDRESS" });
-      break;
-    }
-    case "ORIGIN": {
-      stack.push({ kind: "Environment", source: "ORIGIN" });
-      break;
-    }
-    case "ADD":
-    case "SUB":
-    case "MUL":
-    case "DIV":
-    case "AND":
-    case "OR":
-    case "XOR":
-    case "EQ":
-    case "LT":
-    case "GT": {
-      const args = pop(2);
-      stack.push({ kind: "Op", op, args });
-      break;
-    }
-    default: {
-      // For unknown / unmodelled ops, conservatively pop the declared inputs
-      // This is approximate but keeps stack height sane.
-      // eslint-disable-next-line no-param-reassign
-      stack.length = Math.max(0, stack.length - 1);
-    }
-  }
+function toReportSites(sites: DelegatecallSite[], riskRules?: RiskRule[]): DelegatecallSiteReport[] {
+  return sites.map((s) => {
+    const { risk, notes } = evaluateRiskRules(s, riskRules);
+    return {
+      id: s.id,
+      pc: s.pc,
+      classification: s.classification,
+      pattern: s.patternMatch ?? null,
+      risk,
+      entryPoints: s.entryPoints,
+      guards: s.guards,
+      successCheck: s.successCheck,
+      callArguments: s.callArguments,
+      source: s.source,
+      notes
+    };
+  });
 }
 
-function classifyRisk(classification: TargetClassification, pattern: { name: string } | null | undefined): RiskLevel {
-  const type: TargetType = classification.type;
-
-  if (type === "hardcoded") {
-    if (pattern && pattern.name === "EIP-1167") {
-      return "medium";
-    }
-    return "low";
-  }
-
-  if (type === "storage") {
-    if (pattern && (pattern.name === "EIP-1967" || pattern.name === "UUPS" || pattern.name === "Diamond")) {
-      return "medium";
-    }
-    return "medium";
-  }
-
-  if (type === "calldata") {
-    return "high";
-  }
-
-  if (type === "dynamic") {
-    return "high";
-  }
-
-  return "unknown";
+// The report's `bytecodeHash`
+export function hashBytecode(bytecode: string): string {
+  return crypto.createHash("sha256").update(bytecode).digest("hex");
 }
 
@@ -0,0 +1,44 @@
+import { AsmItem, assemble } from "../testing/assembler";
+import { analyzeBytecode } from "./delegateScanner";
+
+const UPGRADE_TO = "0x3659cfe6";
+const IMPLEMENTATION = "0x5c60da1b";
+
+// DELEGATECALL to the address in the first argument
+const DELEGATE: AsmItem[] = ["PUSH0", "PUSH0", "PUSH0", "PUSH0", { push: "0x04" }, "CALLDATALOAD", "GAS", "DELEGATECALL", "STOP"];
+
+function entryPointsOf(items: AsmItem[]): Array<string[] | undefined> {
+  return analyzeBytecode(assemble(items)).sites.map((site) => site.entryPoints);
+}
+
+describe("recoverDispatcher and findEntryPoints", () => {
+  it("follows solc's EQ chain and routes misses and short calldata to fallback or receive", () => {
+    const entryPoints = entryPointsOf([
+      { push: "0x04" }, "CALLDATASIZE", "LT", { ref: "short" }, "JUMPI",
+      "PUSH0", "CALLDATALOAD", { push: "0xe0" }, "SHR",
+      "DUP1", { push: UPGRADE_TO }, "EQ", { ref: "upgrade" }, "JUMPI",
+      "DUP1", { push: IMPLEMENTATION }, "EQ", { ref: "getter" }, "JUMPI",
+      { ref: "fallback" }, "JUMP",
+      { label: "short" }, "CALLDATASIZE", { ref: "fallback" }, "JUMPI",
+      ...DELEGATE, // receive()
+      { label: "upgrade" }, ...DELEGATE,
+      { label: "getter" }, "STOP",
+      { label: "fallback" }, ...DELEGATE
+    ]);
+    expect(entryPoints).toEqual([["receive"], [UPGRADE_TO], ["fallback"]]);
+  });
+
+  it("follows Vyper's XOR checks, which fall through on a match", () => {
+    const entryPoints = entryPointsOf([
+      "PUSH0", "CALLDATALOAD", { push: "0xe0" }, "SHR",
+      { push: UPGRADE_TO }, "XOR", { ref: "next" }, "JUMPI",
+      ...DELEGATE,
+      { label: "next" }, "STOP"
+    ]);
+    expect(entryPoints).toEqual([[UPGRADE_TO]]);
+  });
+
+  it("enters code without a dispatcher through its fallback", () => {
+    expect(entryPointsOf(DELEGATE)).toEqual([["fallback"]]);
+  });
+});
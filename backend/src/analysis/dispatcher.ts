@@ -0,0 +1,136 @@
+import { StackExpression } from "../types/analysis";
+import { ControlFlowGraph, getBlockContaining, propagatePathProperty } from "./cfg";
+import { isMsgSigExpression, literalToBigInt, simplifyExpression } from "./expressionSimplifier";
+import { BlockState, stateAtPC, TraceContext } from "./stackTracer";
+
+const SELECTOR_MAX = 0xffffffffn;
+
+// For each kind of dispatcher check: the JUMPI outcome (taken or not) under which it holds
+export interface DispatchTable {
+  selectors: Map<number, { selector: string; matchTaken: boolean }>; // msg.sig == selector
+  emptyCalldata: Map<number, boolean>; // CALLDATASIZE == 0 (receive)
+  shortCalldata: Map<number, boolean>; // CALLDATASIZE < 4 (no selector: receive or fallback)
+}
+
+/**
+ * Recovers the external function dispatcher: every reachable JUMPI whose
+ * condition compares msg.sig with a 4-byte literal (solc's `EQ` chains and
+ * binary-search splits, Vyper's `XOR` checks), and the calldata-size checks
+ * that route to receive() and fallback().
+ */
+export function recoverDispatcher(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  ctx: TraceContext = {}
+): DispatchTable {
+  const table: DispatchTable = { selectors: new Map(), emptyCalldata: new Map(), shortCalldata: new Map() };
+
+  for (const blockPc of cfg.reachable) {
+    const block = cfg.blocks.get(blockPc);
+    const jumpi = block?.instructions[block.instructions.length - 1];
+    if (!jumpi || jumpi.op !== "JUMPI") continue;
+
+    // JUMPI(dest, cond): the condition is the second operand
+    const stack = stateAtPC(cfg, blockStates, jumpi.pc, ctx)?.stack ?? [];
+    let expr = simplifyExpression(stack[stack.length - 2] ?? { kind: "Unknown" });
+    // The jump is taken when `expr` is non-zero if `direct`, and when it is zero otherwise
+    let direct = true;
+    while (expr.kind === "Op" && expr.op === "ISZERO" && expr.args.length === 1) {
+      expr = expr.args[0] as StackExpression;
+      direct = !direct;
+    }
+
+    if (isCalldataSize(expr)) {
+      table.emptyCalldata.set(jumpi.pc, !direct);
+      continue;
+    }
+    if (expr.kind !== "Op" || expr.args.length !== 2) continue;
+
+    // Args are deepest-first: the EVM's first operand is the last arg
+    const [second, first] = expr.args as [StackExpression, StackExpression];
+
+    const isShortCheck =
+      (expr.op === "LT" && isCalldataSize(first) && literalToBigInt(second) === 4n) ||
+      (expr.op === "GT" && literalToBigInt(first) === 4n && isCalldataSize(second));
+    if (isShortCheck) {
+      table.shortCalldata.set(jumpi.pc, direct);
+      continue;
+    }
+
+    if (expr.op === "EQ" || expr.op === "XOR" || expr.op === "SUB") {
+      const selector = matchSelector(first, second) ?? matchSelector(second, first);
+      if (selector !== null) {
+        // EQ is non-zero on a match; XOR and SUB are zero
+        table.selectors.set(jumpi.pc, { selector, matchTaken: expr.op === "EQ" ? direct : !direct });
+      }
+    }
+  }
+
+  return table;
+}
+
+function matchSelector(literal: StackExpression, other: StackExpression): string | null {
+  const value = literalToBigInt(literal);
+  if (value === null || value > SELECTOR_MAX || !isMsgSigExpression(other)) return null;
+  return `0x${value.toString(16).padStart(8, "0")}`;
+}
+
+function isCalldataSize(expr: StackExpression): boolean {
+  return expr.kind === "Environment" && expr.source === "CALLDATASIZE";
+}
+
+// Labels of the dispatcher branches a path went through: the last one decides the entry
+// point, since a selector miss only means "fallback" until a later check matches
+type EntryLabels = Set<string>;
+
+/**
+ * Lists the external entry points that reach each site: the selectors whose
+ * dispatcher branch leads to it, plus "receive" and "fallback" for paths that
+ * matched no selector. Labels are unioned where paths meet, separately for each
+ * calling context, so a shared internal function lists every selector calling
+ * it. Contracts without a dispatcher are entered through their fallback only.
+ */
+export function findEntryPoints(
+  cfg: ControlFlowGraph,
+  table: DispatchTable,
+  sitePcs: number[]
+): Map<number, string[]> {
+  const hasDispatcher = table.selectors.size + table.emptyCalldata.size + table.shortCalldata.size > 0;
+
+  const labels = propagatePathProperty<EntryLabels>(cfg, {
+    initial: new Set(hasDispatcher ? [] : ["fallback"]),
+    join: (a, b) => new Set([...a, ...b]),
+    equals: (a, b) => a.size === b.size,
+    branch: (value, jumpiPc, taken) => {
+      const selector = table.selectors.get(jumpiPc);
+      if (selector) {
+        return new Set([taken === selector.matchTaken ? selector.selector : "fallback"]);
+      }
+      const empty = table.emptyCalldata.get(jumpiPc);
+      if (empty !== undefined) {
+        return new Set([taken === empty ? "receive" : "fallback"]);
+      }
+      // Calldata without a selector is for receive() or fallback(), whichever check follows
+      if (table.shortCalldata.get(jumpiPc) === taken) {
+        return new Set(["fallback"]);
+      }
+      return value;
+    }
+  });
+
+  const result = new Map<number, string[]>();
+  for (const sitePc of sitePcs) {
+    const block = getBlockContaining(cfg, sitePc);
+    const reaching = new Set<string>();
+    for (const contextLabels of (block ? labels.get(block.startPc) : undefined) ?? []) {
+      contextLabels.forEach((label) => reaching.add(label));
+    }
+
+    const selectors = Array.from(reaching).filter((label) => label.startsWith("0x")).sort();
+    result.set(sitePc, [
+      ...selectors,
+      ...["receive", "fallback"].filter((label) => reaching.has(label))
+    ]);
+  }
+  return result;
+}
@@ -0,0 +1,62 @@
+import { StackExpression } from "../types/analysis";
+import { formatExpression, isMsgSigExpression, literalToBigInt, simplifyExpression } from "./expressionSimplifier";
+
+const ADDRESS_MASK = `0x${"ff".repeat(20)}`;
+
+const lit = (value: bigint | string): StackExpression => ({
+  kind: "Literal",
+  value: typeof value === "string" ? value : `0x${value.toString(16)}`
+});
+// Operands top of stack first, as the EVM lists them; Op args are stored deepest-first
+const op = (name: string, ...operands: StackExpression[]): StackExpression => ({
+  kind: "Op",
+  op: name,
+  args: [...operands].reverse()
+});
+const sload = (slot: StackExpression): StackExpression => ({ kind: "Storage", slotExpr: slot });
+const calldata = (offset: bigint): StackExpression => ({ kind: "Calldata", offsetExpr: lit(offset) });
+
+function simplified(expr: StackExpression): string {
+  return formatExpression(simplifyExpression(expr));
+}
+
+describe("simplifyExpression", () => {
+  it("strips address masks and cleanup shifts around a storage read", () => {
+    expect(simplified(op("AND", lit(ADDRESS_MASK), sload(lit(1n))))).toBe("SLOAD(0x1)");
+    expect(simplified(op("SHR", lit(96n), op("SHL", lit(96n), sload(lit(1n)))))).toBe("SLOAD(0x1)");
+  });
+
+  it("folds arithmetic on literals", () => {
+    expect(literalToBigInt(simplifyExpression(op("ADD", lit(2n), op("MUL", lit(3n), lit(4n)))))).toBe(14n);
+    expect(literalToBigInt(simplifyExpression(op("SUB", lit(1n), lit(2n))))).toBe((1n << 256n) - 1n);
+  });
+
+  it("collapses operations on the same operand", () => {
+    const value = calldata(4n);
+    expect(literalToBigInt(simplifyExpression(op("XOR", value, value)))).toBe(0n);
+    expect(literalToBigInt(simplifyExpression(op("EQ", value, calldata(4n))))).toBe(1n);
+    expect(simplified(op("SUB", op("ADD", value, lit(32n)), value))).toBe("0x20");
+  });
+
+  it("keeps a literal that already fits the address mask as it was pushed", () => {
+    const immutable = lit(`0x${"00".repeat(12)}${"ab".repeat(20)}`);
+    expect(simplifyExpression(op("AND", lit(ADDRESS_MASK), immutable))).toBe(immutable);
+  });
+
+  it("applies operations to each member of a value set", () => {
+    const slots: StackExpression = { kind: "ValueSet", values: [lit(1n), lit(2n)] };
+    expect(simplified(sload(slots))).toBe("{SLOAD(0x1), SLOAD(0x2)}");
+  });
+});
+
+describe("isMsgSigExpression", () => {
+  it("accepts the selector shapes compilers emit", () => {
+    expect(isMsgSigExpression(simplifyExpression(op("SHR", lit(224n), calldata(0n))))).toBe(true);
+    expect(isMsgSigExpression(simplifyExpression(op("DIV", calldata(0n), lit(1n << 224n))))).toBe(true);
+    expect(isMsgSigExpression(simplifyExpression(op("AND", lit(0xffffffffn << 224n), calldata(0n))))).toBe(true);
+  });
+
+  it("rejects other calldata words", () => {
+    expect(isMsgSigExpression(simplifyExpression(op("SHR", lit(224n), calldata(4n))))).toBe(false);
+  });
+});
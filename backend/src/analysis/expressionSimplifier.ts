@@ -0,0 +1,397 @@
+import { keccak256 } from "ethers";
+import { StackExpression } from "../types/analysis";
+import { makeValueSet, MAX_VALUE_SET_WIDTH } from "./valueDomain";
+
+const WORD_BITS = 256n;
+const WORD_MASK = (1n << WORD_BITS) - 1n;
+const ADDRESS_MASK = (1n << 160n) - 1n;
+const SELECTOR_MASK = 0xffffffffn;
+const SELECTOR_SHIFT = 224n;
+
+// Op args are stored deepest-first, so the EVM's top-of-stack operand μs[0] is the last arg
+function operand(expr: Extract<StackExpression, { kind: "Op" }>, index: number): StackExpression {
+  return expr.args[expr.args.length - 1 - index] ?? { kind: "Unknown" };
+}
+
+// Code words with a known value are constants too: solc's constant optimiser stores large
+// constants (e.g. EIP-1967 slots) in the data section and loads them with CODECOPY
+export function literalToBigInt(expr: StackExpression): bigint | null {
+  const raw = expr.kind === "Literal" ? expr.value : expr.kind === "Code" ? expr.value : undefined;
+  if (raw === undefined) return null;
+  const clean = raw.startsWith("0x") ? raw.slice(2) : raw;
+  if (clean.length === 0) return 0n;
+  try {
+    return BigInt(`0x${clean}`);
+  } catch {
+    return null;
+  }
+}
+
+export function bigIntToLiteral(value: bigint): StackExpression {
+  const hex = (value & WORD_MASK).toString(16);
+  return { kind: "Literal", value: `0x${hex.length % 2 === 0 ? hex : `0${hex}`}` };
+}
+
+export function expressionsEqual(a: StackExpression, b: StackExpression): boolean {
+  if (a === b) return true;
+  if (a.kind !== b.kind) return false;
+
+  switch (a.kind) {
+    case "Literal":
+      return literalToBigInt(a) === literalToBigInt(b);
+    case "Storage":
+      return expressionsEqual(a.slotExpr, (b as typeof a).slotExpr);
+    case "Calldata":
+      return expressionsEqual(a.offsetExpr, (b as typeof a).offsetExpr);
+    case "Environment":
+      return a.source === (b as typeof a).source;
+    case "Code":
+      return a.offset === (b as typeof a).offset;
+    case "StaticcallResult": {
+      const other = b as typeof a;
+      return a.offset === other.offset && a.selector === other.selector && expressionsEqual(a.target, other.target);
+    }
+    case "Keccak": {
+      const other = b as typeof a;
+      return (
+        a.words.length === other.words.length &&
+        a.words.every((word, i) => expressionsEqual(word, other.words[i] ?? { kind: "Unknown" }))
+      );
+    }
+    case "Op": {
+      const other = b as typeof a;
+      return (
+        a.op === other.op &&
+        a.args.length === other.args.length &&
+        a.args.every((arg, i) => expressionsEqual(arg, other.args[i] ?? { kind: "Unknown" }))
+      );
+    }
+    case "ValueSet": {
+      // Members are sorted canonically, so equal sets line up
+      const other = b as typeof a;
+      return (
+        a.values.length === other.values.length &&
+        a.values.every((value, i) => expressionsEqual(value, other.values[i] ?? { kind: "Unknown" }))
+      );
+    }
+    default:
+      // Two unknown values are never known to be the same value
+      return false;
+  }
+}
+
+// DUP pushes the same object again, so aliased sub-expressions are simplified once
+const cache = new WeakMap<StackExpression, StackExpression>();
+
+/**
+ * Normalizes a symbolic stack value so the underlying source of a delegatecall
+ * target is visible: strips address masks and no-op casts, folds arithmetic on
+ * literals, and collapses operations on aliased (DUP'd) operands. Operations on
+ * a value set apply to each member, so `SLOAD({0x01, 0x02})` becomes
+ * `{SLOAD(0x01), SLOAD(0x02)}` and the set ends up outermost.
+ */
+export function simplifyExpression(expr: StackExpression): StackExpression {
+  const cached = cache.get(expr);
+  if (cached) return cached;
+
+  let result: StackExpression;
+  switch (expr.kind) {
+    case "ValueSet":
+      result = makeValueSet(expr.values.map(simplifyExpression));
+      break;
+    case "Storage":
+      result = distribute([expr.slotExpr], ([slotExpr]) => ({ kind: "Storage", slotExpr }));
+      break;
+    case "Calldata":
+      result = distribute([expr.offsetExpr], ([offsetExpr]) => ({ kind: "Calldata", offsetExpr }));
+      break;
+    case "Op":
+      result = distribute(expr.args, (args) => simplifyOp({ kind: "Op", op: expr.op, args }));
+      break;
+    case "Keccak":
+      result = distribute(expr.words, simplifyKeccak);
+      break;
+    case "StaticcallResult":
+      result = distribute([expr.target], ([target]) => ({ ...expr, target }));
+      break;
+    default:
+      result = expr;
+  }
+
+  cache.set(expr, result);
+  cache.set(result, result);
+  return result;
+}
+
+/**
+ * Simplifies the operands and builds the expression with `build`, once per
+ * combination of value set members when operands are sets. More combinations
+ * than a set may hold give an unknown value.
+ */
+function distribute(
+  operands: StackExpression[],
+  build: (operands: StackExpression[]) => StackExpression
+): StackExpression {
+  const simplified = operands.map(simplifyExpression);
+  if (!simplified.some((operand) => operand.kind === "ValueSet")) {
+    return build(simplified);
+  }
+
+  let combinations: StackExpression[][] = [[]];
+  for (const operand of simplified) {
+    const choices = operand.kind === "ValueSet" ? operand.values : [operand];
+    if (combinations.length * choices.length > MAX_VALUE_SET_WIDTH) {
+      return { kind: "Unknown" };
+    }
+    combinations = combinations.flatMap((combination) => choices.map((choice) => [...combination, choice]));
+  }
+  return makeValueSet(combinations.map(build));
+}
+
+function simplifyOp(expr: Extract<StackExpression, { kind: "Op" }>): StackExpression {
+  const a = operand(expr, 0);
+  const b = operand(expr, 1);
+  const va = literalToBigInt(a);
+  const vb = literalToBigInt(b);
+
+  // Masking a value that already fits the mask is a no-op; keep the original literal so its
+  // provenance (e.g. a PUSH32 immutable rather than a PUSH20 constant) is not folded away
+  if (expr.op === "AND" && va !== null && vb !== null) {
+    if (va === ADDRESS_MASK && vb <= ADDRESS_MASK) return b;
+    if (vb === ADDRESS_MASK && va <= ADDRESS_MASK) return a;
+  }
+
+  const folded = foldConstants(expr.op, va, vb, expr.args.length);
+  if (folded !== null) {
+    return bigIntToLiteral(folded);
+  }
+
+  switch (expr.op) {
+    case "AND": {
+      // Address (uint160) and full-word masks are casts; the masked value is the source
+      if (va === ADDRESS_MASK || va === WORD_MASK) return b;
+      if (vb === ADDRESS_MASK || vb === WORD_MASK) return a;
+      if (expressionsEqual(a, b)) return a;
+      break;
+    }
+    case "OR": {
+      if (va === 0n) return b;
+      if (vb === 0n) return a;
+      if (expressionsEqual(a, b)) return a;
+      break;
+    }
+    case "XOR": {
+      if (va === 0n) return b;
+      if (vb === 0n) return a;
+      if (expressionsEqual(a, b)) return bigIntToLiteral(0n);
+      break;
+    }
+    case "ADD": {
+      if (va === 0n) return b;
+      if (vb === 0n) return a;
+      break;
+    }
+    case "SUB": {
+      if (vb === 0n) return a;
+      if (expressionsEqual(a, b)) return bigIntToLiteral(0n);
+      // Lengths are computed as end - start where end = start + length
+      if (a.kind === "Op" && a.op === "ADD") {
+        if (expressionsEqual(operand(a, 0), b)) return operand(a, 1);
+        if (expressionsEqual(operand(a, 1), b)) return operand(a, 0);
+      }
+      break;
+    }
+    case "MUL": {
+      if (va === 1n) return b;
+      if (vb === 1n) return a;
+      if (va === 0n || vb === 0n) return bigIntToLiteral(0n);
+      break;
+    }
+    case "DIV": {
+      // Legacy solc reads packed storage as DIV(SLOAD(slot), EXP(0x100, offset))
+      if (vb === 1n) return a;
+      break;
+    }
+    case "SHL":
+    case "SHR": {
+      if (va === 0n) return b;
+      // SHR(n, SHL(n, x)) clears the top n bits: an address cleanup when n is 96
+      if (expr.op === "SHR" && va === 96n && b.kind === "Op" && b.op === "SHL") {
+        const innerShift = literalToBigInt(operand(b, 0));
+        if (innerShift === 96n) return operand(b, 1);
+      }
+      break;
+    }
+    case "EQ": {
+      if (expressionsEqual(a, b)) return bigIntToLiteral(1n);
+      break;
+    }
+    default:
+      break;
+  }
+
+  return expr;
+}
+
+// Hashes of fully constant memory (e.g. keccak of a literal mapping key) become literal slots
+function simplifyKeccak(words: StackExpression[]): StackExpression {
+  const values = words.map(literalToBigInt);
+  if (values.some((v) => v === null)) {
+    return { kind: "Keccak", words };
+  }
+  const data = values.map((v) => (v ?? 0n).toString(16).padStart(64, "0")).join("");
+  return { kind: "Literal", value: keccak256(`0x${data}`) };
+}
+
+// A word whose top 4 bytes are constant, either a literal or OR'd with the arguments after it
+export function leadingSelector(word: StackExpression): string | null {
+  const candidates = word.kind === "Op" && word.op === "OR" ? word.args : [word];
+  for (const candidate of candidates) {
+    const value = literalToBigInt(candidate);
+    const selector = value !== null ? value >> SELECTOR_SHIFT : 0n;
+    if (selector !== 0n) {
+      return `0x${selector.toString(16).padStart(8, "0")}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether an (already simplified) expression is the 4-byte function selector
+ * of the current call, in any of the shapes compilers emit:
+ * `SHR(0xe0, CALLDATALOAD(0))`, `DIV(CALLDATALOAD(0), 2**224)`, or the
+ * left-aligned `AND(0xffffffff << 224, CALLDATALOAD(0))` used for bytes4 keys.
+ */
+export function isMsgSigExpression(expr: StackExpression): boolean {
+  if (expr.kind !== "Op") return false;
+
+  const a = operand(expr, 0);
+  const b = operand(expr, 1);
+  const va = literalToBigInt(a);
+  const vb = literalToBigInt(b);
+
+  switch (expr.op) {
+    case "AND": {
+      const [mask, value] = va !== null ? [va, b] : [vb, a];
+      if (mask === SELECTOR_MASK) return isMsgSigExpression(value);
+      if (mask === SELECTOR_MASK << SELECTOR_SHIFT) return isCalldataWordZero(value) || isMsgSigExpression(value);
+      return false;
+    }
+    case "SHR":
+      return va === SELECTOR_SHIFT && isCalldataWordZero(b);
+    case "DIV":
+      return vb === 1n << SELECTOR_SHIFT && isCalldataWordZero(a);
+    case "SHL":
+      return va === SELECTOR_SHIFT && isMsgSigExpression(b);
+    case "MUL":
+      return (
+        (va === 1n << SELECTOR_SHIFT && isMsgSigExpression(b)) ||
+        (vb === 1n << SELECTOR_SHIFT && isMsgSigExpression(a))
+      );
+    default:
+      return false;
+  }
+}
+
+function isCalldataWordZero(expr: StackExpression): boolean {
+  return expr.kind === "Calldata" && literalToBigInt(expr.offsetExpr) === 0n;
+}
+
+function foldConstants(op: string, a: bigint | null, b: bigint | null, arity: number): bigint | null {
+  if (a === null) return null;
+
+  if (arity === 1) {
+    switch (op) {
+      case "ISZERO":
+        return a === 0n ? 1n : 0n;
+      case "NOT":
+        return ~a & WORD_MASK;
+      default:
+        return null;
+    }
+  }
+
+  if (b === null || arity !== 2) return null;
+
+  switch (op) {
+    case "ADD":
+      return (a + b) & WORD_MASK;
+    case "SUB":
+      return (a - b) & WORD_MASK;
+    case "MUL":
+      return (a * b) & WORD_MASK;
+    case "DIV":
+      return b === 0n ? 0n : a / b;
+    case "MOD":
+      return b === 0n ? 0n : a % b;
+    case "EXP":
+      return modPow(a, b);
+    case "SHL":
+      return a >= WORD_BITS ? 0n : (b << a) & WORD_MASK;
+    case "SHR":
+      return a >= WORD_BITS ? 0n : b >> a;
+    case "AND":
+      return a & b;
+    case "OR":
+      return a | b;
+    case "XOR":
+      return a ^ b;
+    case "EQ":
+      return a === b ? 1n : 0n;
+    case "LT":
+      return a < b ? 1n : 0n;
+    case "GT":
+      return a > b ? 1n : 0n;
+    default:
+      return null;
+  }
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = base & WORD_MASK;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) & WORD_MASK;
+    b = (b * b) & WORD_MASK;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Renders an expression in a compact, human-readable form for report details,
+ * e.g. `SLOAD(0x01)` or `ADD(CALLDATALOAD(0x04), 0x20)`.
+ */
+export function formatExpression(expr: StackExpression, depth = 0): string {
+  if (depth > 6) return "…";
+
+  switch (expr.kind) {
+    case "Literal":
+      return expr.value;
+    case "Storage":
+      return `SLOAD(${formatExpression(expr.slotExpr, depth + 1)})`;
+    case "Calldata":
+      return `CALLDATALOAD(${formatExpression(expr.offsetExpr, depth + 1)})`;
+    case "Environment":
+      return expr.source;
+    case "Code":
+      return `CODE[0x${expr.offset.toString(16)}]`;
+    case "Keccak":
+      return `KECCAK(${expr.words.map((word) => formatExpression(word, depth + 1)).join(" . ")})`;
+    case "StaticcallResult": {
+      const word = expr.offset > 0 ? `[0x${expr.offset.toString(16)}]` : "";
+      return `STATICCALL(${formatExpression(expr.target, depth + 1)}, ${expr.selector ?? "?"})${word}`;
+    }
+    case "ValueSet":
+      return `{${expr.values.map((value) => formatExpression(value, depth + 1)).join(", ")}}`;
+    case "Op":
+      // Print operands in EVM order (top of stack first)
+      return `${expr.op}(${[...expr.args]
+        .reverse()
+        .map((arg) => formatExpression(arg, depth + 1))
+        .join(", ")})`;
+    default:
+      return "?";
+  }
+}
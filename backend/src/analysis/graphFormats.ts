@@ -0,0 +1,208 @@
+import { GraphNode, GraphOutput, RiskLevel } from "../types/analysis";
+
+export const GRAPH_FORMATS = ["dot", "mermaid", "graphml", "cytoscape"] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export const GRAPH_MEDIA_TYPES: Record<GraphFormat, string> = {
+  dot: "text/vnd.graphviz",
+  mermaid: "text/plain",
+  graphml: "application/graphml+xml",
+  cytoscape: "application/json"
+};
+
+// The web UI's risk badge colours
+const RISK_COLORS: Record<RiskLevel, string> = {
+  high: "#ef4444",
+  medium: "#f59e0b",
+  low: "#10b981",
+  unknown: "#64748b"
+};
+
+// Node kind -> shape, in each tool's vocabulary
+const DOT_SHAPES: Record<GraphNode["kind"], string> = {
+  contract: "box",
+  implementation: "ellipse",
+  facet: "hexagon",
+  unknown: "diamond"
+};
+
+const CYTOSCAPE_SHAPES: Record<GraphNode["kind"], string> = {
+  contract: "round-rectangle",
+  implementation: "ellipse",
+  facet: "hexagon",
+  unknown: "diamond"
+};
+
+// Mermaid wraps the label in the shape's brackets
+const MERMAID_SHAPES: Record<GraphNode["kind"], [string, string]> = {
+  contract: ["[", "]"],
+  implementation: ["([", "])"],
+  facet: ["{{", "}}"],
+  unknown: ["{", "}"]
+};
+
+export interface CytoscapeNode {
+  data: { id: string; label: string; kind: GraphNode["kind"]; shape: string; metadata?: Record<string, unknown> };
+}
+
+export interface CytoscapeEdge {
+  data: { id: string; source: string; target: string; label?: string; siteId: string; risk: RiskLevel; color: string };
+}
+
+export interface CytoscapeGraph {
+  elements: { nodes: CytoscapeNode[]; edges: CytoscapeEdge[] };
+}
+
+/**
+ * Serializes a delegation graph for other tools: Graphviz DOT, a Mermaid
+ * flowchart, GraphML or Cytoscape.js elements JSON. In each, the node kind
+ * picks the shape and the site's risk colours its edge (and is kept as an
+ * attribute where the format has them).
+ */
+export function serializeGraph(graph: GraphOutput, format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return toDot(graph);
+    case "mermaid":
+      return toMermaid(graph);
+    case "graphml":
+      return toGraphML(graph);
+    case "cytoscape":
+      return JSON.stringify(toCytoscape(graph), null, 2);
+    default:
+      throw new Error(`Unknown graph format: ${format as string}`);
+  }
+}
+
+export function toDot(graph: GraphOutput): string {
+  const lines = [
+    "digraph delegatecalls {",
+    "  rankdir=LR;",
+    '  node [fontname="Helvetica"];',
+    '  edge [fontname="Helvetica"];'
+  ];
+  for (const node of graph.nodes) {
+    const shape = DOT_SHAPES[node.kind];
+    lines.push(`  ${dotString(node.id)} [label=${dotString(node.label)}, shape=${shape}, kind=${node.kind}];`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.label !== undefined ? `label=${dotString(edge.label)}, ` : "";
+    lines.push(
+      `  ${dotString(edge.from)} -> ${dotString(edge.to)} [${label}color=${dotString(RISK_COLORS[edge.risk])}, ` +
+        `risk=${edge.risk}, site=${dotString(edge.siteId)}];`
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+export function toMermaid(graph: GraphOutput): string {
+  // Mermaid ids must be plain words; node ids here hold colons and addresses
+  const ids = new Map(graph.nodes.map((node, idx) => [node.id, `n${idx}`]));
+  const idOf = (id: string): string => {
+    if (!ids.has(id)) ids.set(id, `n${ids.size}`);
+    return ids.get(id) as string;
+  };
+
+  const lines = ["flowchart LR"];
+  for (const node of graph.nodes) {
+    const [open, close] = MERMAID_SHAPES[node.kind];
+    lines.push(`  ${idOf(node.id)}${open}"${mermaidText(node.label)}"${close}`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.label !== undefined ? `|"${mermaidText(edge.label)}"|` : "";
+    lines.push(`  ${idOf(edge.from)} -->${label} ${idOf(edge.to)}`);
+  }
+  // Links are styled by their index in declaration order
+  graph.edges.forEach((edge, idx) => {
+    lines.push(`  linkStyle ${idx} stroke:${RISK_COLORS[edge.risk]},color:${RISK_COLORS[edge.risk]}`);
+  });
+  return lines.join("\n");
+}
+
+export function toGraphML(graph: GraphOutput): string {
+  const data = (key: string, value: string | undefined): string =>
+    value !== undefined ? `      <data key="${key}">${xmlText(value)}</data>` : "";
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="all" attr.name="label" attr.type="string"/>',
+    '  <key id="kind" for="node" attr.name="kind" attr.type="string"/>',
+    '  <key id="shape" for="node" attr.name="shape" attr.type="string"/>',
+    '  <key id="metadata" for="node" attr.name="metadata" attr.type="string"/>',
+    '  <key id="siteId" for="edge" attr.name="siteId" attr.type="string"/>',
+    '  <key id="risk" for="edge" attr.name="risk" attr.type="string"/>',
+    '  <key id="color" for="edge" attr.name="color" attr.type="string"/>',
+    '  <graph id="delegatecalls" edgedefault="directed">'
+  ];
+  for (const node of graph.nodes) {
+    lines.push(
+      `    <node id="${xmlText(node.id)}">`,
+      data("label", node.label),
+      data("kind", node.kind),
+      data("shape", DOT_SHAPES[node.kind]),
+      data("metadata", node.metadata ? JSON.stringify(node.metadata) : undefined),
+      "    </node>"
+    );
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+      `    <edge id="${xmlText(edge.id)}" source="${xmlText(edge.from)}" target="${xmlText(edge.to)}">`,
+      data("label", edge.label),
+      data("siteId", edge.siteId),
+      data("risk", edge.risk),
+      data("color", RISK_COLORS[edge.risk]),
+      "    </edge>"
+    );
+  }
+  lines.push("  </graph>", "</graphml>");
+  return lines.filter((line) => line !== "").join("\n");
+}
+
+// Loads with `cytoscape({ elements: graph.elements, style: [...] })`; style on data(shape) and data(color)
+export function toCytoscape(graph: GraphOutput): CytoscapeGraph {
+  return {
+    elements: {
+      nodes: graph.nodes.map((node) => ({
+        data: {
+          id: node.id,
+          label: node.label,
+          kind: node.kind,
+          shape: CYTOSCAPE_SHAPES[node.kind],
+          metadata: node.metadata
+        }
+      })),
+      edges: graph.edges.map((edge) => ({
+        data: {
+          id: edge.id,
+          source: edge.from,
+          target: edge.to,
+          label: edge.label,
+          siteId: edge.siteId,
+          risk: edge.risk,
+          color: RISK_COLORS[edge.risk]
+        }
+      }))
+    }
+  };
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+// Quotes are entity-encoded; line breaks become <br/>
+function mermaidText(value: string): string {
+  return value.replace(/"/g, "#quot;").replace(/\n/g, "<br/>");
+}
+
+function xmlText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;");
+}
@@ -0,0 +1,50 @@
+import { DelegatecallSiteReport, DelegatecallSurfaceReport, ResolvedImplementation } from "../types/analysis";
+import { generateGraph } from "./graphGenerator";
+
+const PROXY = "0x1000000000000000000000000000000000000001";
+const IMPL_A = "0x3000000000000000000000000000000000000003";
+const IMPL_B = "0x4000000000000000000000000000000000000004";
+const SLOT_0 = `0x${"0".repeat(64)}`;
+const SLOT_1 = `0x${"0".repeat(63)}1`;
+
+function storageSite(id: string, slot: string): DelegatecallSiteReport {
+  return { id, pc: 0, classification: { type: "storage", storageSlotLiteral: slot }, risk: "medium" };
+}
+
+// An implementation reached at depth 1, whose own site reads slot 0 and is left unresolved
+function implementation(address: string): ResolvedImplementation {
+  const graph = generateGraph(address, [storageSite("site-0", SLOT_0)]);
+  return { address, depth: 1, report: { graph } as DelegatecallSurfaceReport };
+}
+
+describe("generateGraph", () => {
+  it("links a resolved storage target to the implementation's contract node", () => {
+    const graph = generateGraph(PROXY, [storageSite("site-0", SLOT_1)], {
+      targets: [{ siteId: "site-0", slot: SLOT_1, address: IMPL_A, depth: 1 }]
+    });
+    expect(graph.edges.map((edge) => [edge.from, edge.to])).toEqual([[`contract:${PROXY}`, `contract:${IMPL_A}`]]);
+  });
+
+  it("keeps each contract's storage and site nodes apart in multi-hop graphs", () => {
+    const graph = generateGraph(
+      PROXY,
+      [storageSite("site-0", SLOT_1), storageSite("site-1", SLOT_1)],
+      {
+        targets: [
+          { siteId: "site-0", slot: SLOT_1, address: IMPL_A, depth: 1 },
+          { siteId: "site-1", slot: SLOT_1, address: IMPL_B, depth: 1 }
+        ],
+        implementations: [implementation(IMPL_A), implementation(IMPL_B)]
+      }
+    );
+
+    const ids = graph.nodes.map((node) => node.id);
+    expect(ids).toEqual(expect.arrayContaining([`storage:${IMPL_A}:${SLOT_0}`, `storage:${IMPL_B}:${SLOT_0}`]));
+    expect(ids).not.toContain(`storage:${SLOT_0}`);
+    expect(new Set(ids).size).toBe(ids.length);
+    // Each implementation's site leads to its own slot node
+    expect(graph.edges.filter((edge) => edge.from === `contract:${IMPL_A}`).map((edge) => edge.to)).toEqual([
+      `storage:${IMPL_A}:${SLOT_0}`
+    ]);
+  });
+});
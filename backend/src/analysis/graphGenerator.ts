@@ -1,14 +1,32 @@
-import { DelegatecallSite, GraphEdge, GraphNode, GraphOutput, RiskLevel } from "../types/analysis";
+import {
+  DelegatecallSiteReport,
+  GraphEdge,
+  GraphNode,
+  GraphOutput,
+  ResolvedImplementation,
+  ResolvedTarget,
+  RiskLevel
+} from "../types/analysis";
+
+// Nodes standing for a contract, analysed, hardcoded or called by address, are the same node
+// in every hop's graph
+const SHARED_NODE_ID = /^(?:contract|impl):|^external:0x[0-9a-fA-F]{40}$/;
+
+export interface GraphResolution {
+  targets?: ResolvedTarget[]; // On-chain values of this contract's storage-driven targets
+  implementations?: ResolvedImplementation[]; // Contracts reached through them, with their own graphs
+}
 
 export function generateGraph(
   contractAddress: string | undefined,
-  sites: DelegatecallSite[]
+  sites: DelegatecallSiteReport[],
+  resolution: GraphResolution = {}
 ): GraphOutput {
   const nodes: GraphNode[] = [];
   const edges: GraphEdge[] = [];
 
   // Add contract node
-  const contractId = contractAddress ? `contract:${contractAddress}` : "contract:unknown";
+  const contractId = contractNodeId(contractAddress);
   nodes.push({
     id: contractId,
     label: contractAddress ? `${contractAddress.slice(0, 10)}...` : "Contract",
@@ -20,75 +38,164 @@ export function generateGraph(
 
   // Process each delegatecall site
   const implAddresses = new Map<string, { address: string; risk: RiskLevel; siteIds: string[] }>();
+  const resolvedBySite = new Map((resolution.targets ?? []).map((target) => [target.siteId, target]));
 
   for (const site of sites) {
-    const targetAddr = site.classification.addressLiteral;
-    const storageSlot = site.classification.storageSlotLiteral;
-
-    if (targetAddr) {
-      // Hardcoded address
-      const implId = `impl:${targetAddr}`;
-      if (!implAddresses.has(implId)) {
-        implAddresses.set(implId, {
-          address: targetAddr,
-          risk: classifySiteRisk(site),
-          siteIds: []
+    // A target that is one of several values gets an edge to each of them
+    const { candidates } = site.classification;
+    (candidates ?? [site.classification]).forEach((classification, idx) => {
+      const edgeId = candidates ? `edge-${site.id}-${idx}` : `edge-${site.id}`;
+      const nodeKey = candidates ? `${site.id}-${idx}` : site.id;
+      const targetAddr = classification.addressLiteral;
+      const storageSlot = classification.storageSlotLiteral;
+      const mapping = classification.mapping;
+      const lookup = classification.externalLookup;
+      const resolved = candidates ? undefined : resolvedBySite.get(site.id);
+
+      if (targetAddr) {
+        // Hardcoded address
+        const implId = `impl:${targetAddr}`;
+        if (!implAddresses.has(implId)) {
+          implAddresses.set(implId, {
+            address: targetAddr,
+            risk: site.risk,
+            siteIds: []
+          });
+        }
+        implAddresses.get(implId)?.siteIds.push(site.id);
+
+        // Create edge
+        edges.push({
+          id: edgeId,
+          from: contractId,
+          to: implId,
+          label: site.pattern?.name ?? (classification.type === "immutable" ? "DELEGATECALL (immutable)" : "DELEGATECALL"),
+          siteId: site.id,
+          risk: site.risk
         });
-      }
-      implAddresses.get(implId)?.siteIds.push(site.id);
-
-      // Create edge
-      edges.push({
-        id: `edge-${site.id}`,
-        from: contractId,
-        to: implId,
-        label: site.patternMatch?.name ?? "DELEGATECALL",
-        siteId: site.id,
-        risk: classifySiteRisk(site)
-      });
-    } else if (storageSlot) {
-      // Storage-driven (proxy pattern)
-      const implId = `storage:${storageSlot}`;
-      if (!implAddresses.has(implId)) {
-        implAddresses.set(implId, {
-          address: storageSlot,
-          risk: classifySiteRisk(site),
-          siteIds: []
+      } else if ((storageSlot || lookup) && resolved?.address) {
+        // Storage-driven or external target read on-chain: link to the implementation contract itself
+        const implId = contractNodeId(resolved.address);
+        if (!nodes.some((n) => n.id === implId)) {
+          nodes.push({
+            id: implId,
+            label: `${resolved.address.slice(0, 10)}...`,
+            kind: "implementation",
+            metadata: {
+              address: resolved.address,
+              slot: resolved.slot,
+              callee: resolved.callee,
+              depth: resolved.depth
+            }
+          });
+        }
+
+        const patternLabel = site.pattern?.name ?? (lookup ? "External Lookup" : "Storage Proxy");
+        const source = resolved.callee
+          ? `via: ${resolved.callee.slice(0, 10)}...`
+          : `slot: ${(storageSlot ?? "").slice(0, 10)}...`;
+        edges.push({
+          id: edgeId,
+          from: contractId,
+          to: implId,
+          label: `${patternLabel} (${source})${resolved.cycle ? " (cycle)" : ""}`,
+          siteId: site.id,
+          risk: site.risk
         });
-      }
-      implAddresses.get(implId)?.siteIds.push(site.id);
-
-      const patternLabel = site.patternMatch?.name ?? "Storage Proxy";
-      edges.push({
-        id: `edge-${site.id}`,
-        from: contractId,
-        to: implId,
-        label: `${patternLabel} (slot: ${storageSlot.slice(0, 10)}...)`,
-        siteId: site.id,
-        risk: classifySiteRisk(site)
-      });
-    } else {
-      // Unknown/dynamic target
-      const implId = `unknown:${site.id}`;
-      nodes.push({
-        id: implId,
-        label: "Unknown Target",
-        kind: "unknown",
-        metadata: {
+      } else if (storageSlot) {
+        // Storage-driven (proxy pattern)
+        const implId = `storage:${storageSlot}`;
+        if (!implAddresses.has(implId)) {
+          implAddresses.set(implId, {
+            address: storageSlot,
+            risk: site.risk,
+            siteIds: []
+          });
+        }
+        implAddresses.get(implId)?.siteIds.push(site.id);
+
+        const patternLabel = site.pattern?.name ?? "Storage Proxy";
+        edges.push({
+          id: edgeId,
+          from: contractId,
+          to: implId,
+          label: `${patternLabel} (slot: ${storageSlot.slice(0, 10)}...)`,
+          siteId: site.id,
+          risk: site.risk
+        });
+      } else if (lookup) {
+        // Target answered by another contract, e.g. a beacon's implementation()
+        const callee = lookup.calleeSlot ?? lookup.calleeAddress;
+        const implId = `external:${callee ?? nodeKey}`;
+        if (!nodes.some((n) => n.id === implId)) {
+          nodes.push({
+            id: implId,
+            label: callee
+              ? `${lookup.calleeSlot ? "Callee in slot" : "Callee"}\n${callee.slice(0, 10)}...`
+              : "Unknown Callee",
+            kind: "implementation",
+            metadata: {
+              ...lookup,
+              siteId: site.id
+            }
+          });
+        }
+
+        edges.push({
+          id: edgeId,
+          from: contractId,
+          to: implId,
+          label: `${site.pattern?.name ?? "External Lookup"} (${lookup.selector ?? "unknown selector"})`,
           siteId: site.id,
-          classification: site.classification.type
+          risk: site.risk
+        });
+      } else if (mapping) {
+        // Storage mapping lookup (e.g. Diamond selector-to-facet table)
+        const implId = `mapping:${mapping.baseSlot ?? nodeKey}`;
+        if (!nodes.some((n) => n.id === implId)) {
+          nodes.push({
+            id: implId,
+            label: mapping.keySource === "msg.sig" ? "Facets by selector" : `Mapping by ${mapping.keySource}`,
+            kind: mapping.keySource === "msg.sig" ? "facet" : "implementation",
+            metadata: {
+              baseSlot: mapping.baseSlot,
+              keySource: mapping.keySource,
+              siteId: site.id
+            }
+          });
         }
-      });
-
-      edges.push({
-        id: `edge-${site.id}`,
-        from: contractId,
-        to: implId,
-        label: "DELEGATECALL (dynamic)",
-        siteId: site.id,
-        risk: classifySiteRisk(site)
-      });
-    }
+
+        edges.push({
+          id: edgeId,
+          from: contractId,
+          to: implId,
+          label: `${site.pattern?.name ?? "Mapping"} (key: ${mapping.keySource})`,
+          siteId: site.id,
+          risk: site.risk
+        });
+      } else {
+        // Unknown/dynamic target
+        const implId = `unknown:${nodeKey}`;
+        nodes.push({
+          id: implId,
+          label: "Unknown Target",
+          kind: "unknown",
+          metadata: {
+            siteId: site.id,
+            classification: classification.type
+          }
+        });
+
+        edges.push({
+          id: edgeId,
+          from: contractId,
+          to: implId,
+          label: "DELEGATECALL (dynamic)",
+          siteId: site.id,
+          risk: site.risk
+        });
+      }
+    });
   }
 
   // Add implementation nodes
@@ -110,21 +217,30 @@ export function generateGraph(
     });
   }
 
-  return { nodes, edges };
-}
+  // Further hops: each implementation's own graph, attached at its node. Nodes already
+  // present (the implementation itself, or a contract revisited through a cycle) are kept
+  for (const implementation of resolution.implementations ?? []) {
+    const graph = implementation.report.graph;
+    if (!graph) continue;
 
-function classifySiteRisk(site: DelegatecallSite): RiskLevel {
-  const type = site.classification.type;
-  const pattern = site.patternMatch?.name;
+    // Slots, mapping base slots and site ids only mean something within one contract, as do
+    // the nodes named after them
+    const scoped = (id: string): string =>
+      SHARED_NODE_ID.test(id) ? id : id.replace(/^(\w+):/, `$1:${implementation.address}:`);
 
-  if (type === "hardcoded") {
-    return pattern === "EIP-1167" ? "medium" : "low";
-  }
-  if (type === "storage") {
-    return pattern === "Diamond" ? "medium" : pattern ? "medium" : "medium";
-  }
-  if (type === "calldata" || type === "dynamic") {
-    return "high";
+    for (const node of graph.nodes) {
+      if (!nodes.some((n) => n.id === scoped(node.id))) {
+        nodes.push({ ...node, id: scoped(node.id) });
+      }
+    }
+    for (const edge of graph.edges) {
+      edges.push({ ...edge, id: `${implementation.address}:${edge.id}`, to: scoped(edge.to) });
+    }
   }
-  return "unknown";
+
+  return { nodes, edges };
+}
+
+function contractNodeId(address: string | undefined): string {
+  return address ? `contract:${address}` : "contract:unknown";
 }
@@ -0,0 +1,55 @@
+import { AsmItem, assemble } from "../testing/assembler";
+import { AccessGuard } from "../types/analysis";
+import { analyzeBytecode } from "./delegateScanner";
+
+const SLOT_0 = `0x${"0".repeat(64)}`;
+const SLOT_1 = `0x${"0".repeat(63)}1`;
+
+// DELEGATECALL to the address in the first argument
+const DELEGATE: AsmItem[] = ["PUSH0", "PUSH0", "PUSH0", "PUSH0", { push: "0x04" }, "CALLDATALOAD", "GAS", "DELEGATECALL", "STOP"];
+
+const REVERT: AsmItem[] = ["PUSH0", "PUSH0", "REVERT"];
+
+function guardsOf(items: AsmItem[]): AccessGuard[] | undefined {
+  return analyzeBytecode(assemble(items)).sites[0]?.guards;
+}
+
+describe("detectAccessGuards", () => {
+  it("finds require(msg.sender == owner)", () => {
+    const guards = guardsOf(["PUSH0", "SLOAD", "CALLER", "EQ", { ref: "ok" }, "JUMPI", ...REVERT, { label: "ok" }, ...DELEGATE]);
+    expect(guards).toEqual([expect.objectContaining({ kind: "storage", slot: SLOT_0 })]);
+  });
+
+  it("finds if (msg.sender != owner) revert()", () => {
+    const guards = guardsOf(["PUSH0", "SLOAD", "CALLER", "XOR", { ref: "denied" }, "JUMPI", ...DELEGATE, { label: "denied" }, ...REVERT]);
+    expect(guards).toEqual([expect.objectContaining({ kind: "storage", slot: SLOT_0 })]);
+  });
+
+  it("finds a flag read from a mapping keyed by msg.sender", () => {
+    const guards = guardsOf([
+      "CALLER", "PUSH0", "MSTORE", { push: "0x01" }, { push: "0x20" }, "MSTORE",
+      { push: "0x40" }, "PUSH0", "SHA3", "SLOAD", { ref: "ok" }, "JUMPI", ...REVERT,
+      { label: "ok" }, ...DELEGATE
+    ]);
+    expect(guards).toEqual([expect.objectContaining({ kind: "mapping", slot: SLOT_1 })]);
+  });
+
+  it("ignores a check that another path skips", () => {
+    const guards = guardsOf([
+      "PUSH0", "CALLDATALOAD", { ref: "call" }, "JUMPI",
+      "PUSH0", "SLOAD", "CALLER", "EQ", { ref: "call" }, "JUMPI", ...REVERT,
+      { label: "call" }, ...DELEGATE
+    ]);
+    expect(guards ?? []).toEqual([]);
+  });
+
+  it("reports no guards when a jump is unresolved", () => {
+    const guards = guardsOf([
+      "PUSH0", "SLOAD", "CALLER", "EQ", { ref: "ok" }, "JUMPI", ...REVERT,
+      // JUMPI to an address taken from calldata, falling through to the call
+      { label: "ok" }, "PUSH0", "CALLDATALOAD", { push: "0x24" }, "CALLDATALOAD", "JUMPI",
+      ...DELEGATE
+    ]);
+    expect(guards ?? []).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+import { AccessGuard, StackExpression } from "../types/analysis";
+import { ControlFlowGraph, getBlockContaining, getPathConditions } from "./cfg";
+import { formatExpression, literalToBigInt, simplifyExpression } from "./expressionSimplifier";
+import { BlockState, stateAtPC, TraceContext } from "./stackTracer";
+
+type GuardMatch = Omit<AccessGuard, "pc">;
+
+/**
+ * Finds the access-control checks guarding each DELEGATECALL: JUMPI outcomes
+ * that hold on every path to the site (the CFG's path conditions) whose
+ * condition compares msg.sender with an owner slot, a literal address, the
+ * contract itself or a caller-keyed mapping, in both the `require(msg.sender
+ * == admin)` and the `if (msg.sender != admin) revert()` form.
+ */
+export function detectAccessGuards(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  sitePcs: number[],
+  ctx: TraceContext = {}
+): Map<number, AccessGuard[]> {
+  const result = new Map<number, AccessGuard[]>();
+  // Paths through an unresolved jump are missing from the CFG, so a check that seems to
+  // hold on every path might not; report no guards rather than wrongly lower risk
+  if (cfg.unresolvedJumps.length > 0) {
+    return result;
+  }
+
+  const conditions = new Map<number, StackExpression>();
+  const conditionAt = (jumpiPc: number): StackExpression => {
+    let condition = conditions.get(jumpiPc);
+    if (!condition) {
+      // JUMPI(dest, cond): the condition is the second operand
+      const stack = stateAtPC(cfg, blockStates, jumpiPc, ctx)?.stack ?? [];
+      condition = simplifyExpression(stack[stack.length - 2] ?? { kind: "Unknown" });
+      conditions.set(jumpiPc, condition);
+    }
+    return condition;
+  };
+
+  for (const sitePc of sitePcs) {
+    const siteBlock = getBlockContaining(cfg, sitePc);
+    // A guard must hold whichever calling context the site is reached in
+    const contexts = siteBlock ? getPathConditions(cfg, siteBlock.startPc) : [];
+    const outcomes = (contexts[0] ?? []).filter((outcome) =>
+      contexts.every((other) => other.some((o) => o.jumpiPc === outcome.jumpiPc && o.taken === outcome.taken))
+    );
+
+    const guards: AccessGuard[] = [];
+    for (const { jumpiPc, taken } of outcomes) {
+      const match = matchCallerCheck(conditionAt(jumpiPc), taken);
+      if (match) {
+        guards.push({ ...match, pc: jumpiPc });
+      }
+    }
+
+    if (guards.length > 0) {
+      result.set(sitePc, guards);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Recognises `msg.sender == X` in a branch condition that is known to be
+ * non-zero (`holds`) or zero (`!holds`) on the path to the site.
+ */
+function matchCallerCheck(condition: StackExpression, holds: boolean): GuardMatch | null {
+  let expr = condition;
+  let positive = holds;
+  while (expr.kind === "Op" && expr.op === "ISZERO" && expr.args.length === 1) {
+    expr = expr.args[0] as StackExpression;
+    positive = !positive;
+  }
+
+  if (expr.kind !== "Op") {
+    return positive ? matchCallerMapping(expr) : null;
+  }
+
+  const [a, b] = expr.args as [StackExpression | undefined, StackExpression | undefined];
+  if (!a || !b) return null;
+
+  // EQ(x, y) != 0, or SUB/XOR(x, y) == 0, means x == y
+  const isEquality = (positive && expr.op === "EQ") || (!positive && (expr.op === "SUB" || expr.op === "XOR"));
+  if (isEquality) {
+    if (isCaller(a)) return matchAuthorized(b);
+    if (isCaller(b)) return matchAuthorized(a);
+    return null;
+  }
+
+  // Boolean flags read from a caller-keyed mapping, possibly masked to a single byte
+  return positive ? matchCallerMapping(expr) : null;
+}
+
+function matchAuthorized(expr: StackExpression): GuardMatch | null {
+  if (expr.kind === "Environment" && expr.source === "ADDRESS") {
+    return { kind: "self", details: "msg.sender == address(this)" };
+  }
+
+  const address = literalToBigInt(expr);
+  if (address !== null && address < 1n << 160n) {
+    const literal = `0x${address.toString(16).padStart(40, "0")}`;
+    return { kind: "address", address: literal, details: `msg.sender == ${literal}` };
+  }
+
+  const storage = unwrapPackedField(expr);
+  if (storage.kind === "Storage") {
+    const slot = literalToBigInt(storage.slotExpr);
+    if (slot !== null) {
+      const slotLiteral = `0x${slot.toString(16).padStart(64, "0")}`;
+      return { kind: "storage", slot: slotLiteral, details: `msg.sender == SLOAD(${slotLiteral})` };
+    }
+    return { kind: "storage", details: `msg.sender == ${formatExpression(storage)}` };
+  }
+
+  return null;
+}
+
+function matchCallerMapping(expr: StackExpression): GuardMatch | null {
+  const storage = unwrapPackedField(expr);
+  if (storage.kind !== "Storage" || storage.slotExpr.kind !== "Keccak" || storage.slotExpr.words.length !== 2) {
+    return null;
+  }
+  const [key, base] = storage.slotExpr.words as [StackExpression, StackExpression];
+  if (!isCaller(key)) return null;
+
+  const baseSlot = literalToBigInt(base);
+  const slot = baseSlot !== null ? `0x${baseSlot.toString(16).padStart(64, "0")}` : undefined;
+  return { kind: "mapping", slot, details: `mapping[msg.sender] at base slot ${slot ?? formatExpression(base)}` };
+}
+
+// Packed storage values are read as AND(mask, SHR(offset, SLOAD(slot))) or DIV by a power of two
+function unwrapPackedField(expr: StackExpression): StackExpression {
+  let current = expr;
+  while (current.kind === "Op" && current.args.length === 2) {
+    // Args are deepest-first: SHR(shift, value) is [value, shift], DIV(a, b) is [b, a]
+    const [x, y] = current.args as [StackExpression, StackExpression];
+    let inner: StackExpression | null = null;
+    if (current.op === "AND") {
+      inner = literalToBigInt(x) !== null ? y : literalToBigInt(y) !== null ? x : null;
+    } else if (current.op === "SHR" && literalToBigInt(y) !== null) {
+      inner = x;
+    } else if (current.op === "DIV" && literalToBigInt(x) !== null) {
+      inner = y;
+    }
+    if (!inner) break;
+    current = inner;
+  }
+  return current;
+}
+
+function isCaller(expr: StackExpression): boolean {
+  return expr.kind === "Environment" && expr.source === "CALLER";
+}
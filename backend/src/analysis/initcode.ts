@@ -0,0 +1,100 @@
+import { StackExpression } from "../types/analysis";
+import { ControlFlowGraph } from "./cfg";
+import { expressionsEqual, literalToBigInt, simplifyExpression } from "./expressionSimplifier";
+import { applyInstructionToStack, BlockState, computeBlockStates, TraceContext } from "./stackTracer";
+
+export interface RuntimeCodeLocation {
+  offset: number; // Start of the runtime inside the creation code
+  length: number;
+  copyPc: number; // CODECOPY that loads the runtime into memory
+  returnPc: number; // RETURN that hands it to the EVM as the deployed code
+}
+
+interface CodeCopy {
+  pc: number;
+  dest: StackExpression;
+  offset: number;
+  size: number;
+}
+
+/**
+ * Finds the runtime code deployed by creation bytecode: a CODECOPY of a constant
+ * range of the code into memory and a RETURN of that memory region. The RETURN
+ * may cover more than the copy (Vyper appends immutables after the runtime).
+ * Returns null when no such pair is reachable, i.e. the code is not initcode.
+ * `states` are the CFG's block states under `ctx`, when already computed.
+ */
+export function locateRuntimeCode(
+  cfg: ControlFlowGraph,
+  code: Uint8Array,
+  ctx: TraceContext = {},
+  states?: Map<number, BlockState>
+): RuntimeCodeLocation | null {
+  const hasCopy = Array.from(cfg.reachable).some((blockPc) =>
+    cfg.blocks.get(blockPc)?.instructions.some((instr) => instr.op === "CODECOPY")
+  );
+  if (!hasCopy) {
+    return null;
+  }
+
+  // Each block is replayed once so a value DUP'd to both the CODECOPY and the RETURN
+  // (typically the free memory pointer, only known symbolically) is the same object
+  const blockStates = states ?? computeBlockStates(cfg, ctx);
+  const copies: CodeCopy[] = [];
+  const returns: Array<{ pc: number; offset: StackExpression; size: StackExpression }> = [];
+
+  for (const blockPc of cfg.reachable) {
+    const block = cfg.blocks.get(blockPc);
+    const entry = blockStates.get(blockPc);
+    if (!block || !entry) continue;
+
+    const stack = [...entry.stack];
+    const memory = new Map(entry.memory);
+    for (const instr of block.instructions) {
+      if (instr.op === "CODECOPY") {
+        // CODECOPY(destOffset, offset, size)
+        const [dest, offset, size] = operands(stack, 3);
+        const start = constantValue(offset);
+        const length = constantValue(size);
+        // The runtime is a constant range embedded after the code that copies it
+        if (start !== null && length !== null && length > 0 && start > instr.pc && start + length <= code.length) {
+          copies.push({ pc: instr.pc, dest, offset: start, size: length });
+        }
+      } else if (instr.op === "RETURN") {
+        // RETURN(offset, size)
+        const [offset, size] = operands(stack, 2);
+        returns.push({ pc: instr.pc, offset, size });
+      }
+      applyInstructionToStack(instr.op, instr.pushData, stack, memory, ctx);
+    }
+  }
+
+  let best: RuntimeCodeLocation | null = null;
+  for (const ret of returns) {
+    const returnedSize = constantValue(ret.size);
+    if (returnedSize === null) continue;
+
+    for (const copy of copies) {
+      if (!expressionsEqual(copy.dest, ret.offset) || copy.size > returnedSize) continue;
+      if (!best || copy.size > best.length) {
+        best = { offset: copy.offset, length: copy.size, copyPc: copy.pc, returnPc: ret.pc };
+      }
+    }
+  }
+
+  return best;
+}
+
+// EVM operands μs[0..count), simplified
+function operands(stack: StackExpression[], count: number): StackExpression[] {
+  const result: StackExpression[] = [];
+  for (let i = 0; i < count; i += 1) {
+    result.push(simplifyExpression(stack[stack.length - 1 - i] ?? { kind: "Unknown" }));
+  }
+  return result;
+}
+
+function constantValue(expr: StackExpression): number | null {
+  const value = literalToBigInt(expr);
+  return value !== null && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : null;
+}
@@ -0,0 +1,219 @@
+import { getBytes, hexlify } from "ethers";
+import { ByteRegion, Hardfork, StackExpression } from "../types/analysis";
+import { buildCFG, ControlFlowGraph, findReachableCodeEnd, truncateCFG } from "./cfg";
+import { formatExpression, simplifyExpression } from "./expressionSimplifier";
+import { parseCompilerMetadata } from "./metadata";
+import { decodeBytecode } from "./opcodes";
+import { buildSignatureDatabase, SignatureDatabase } from "./signatures";
+import { computeBlockStates, stateAtPC } from "./stackTracer";
+
+// Well-known proxy storage slots, named wherever they appear in a listing
+const KNOWN_SLOTS: Record<string, string> = {
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc": "EIP-1967 implementation slot",
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103": "EIP-1967 admin slot",
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50": "EIP-1967 beacon slot",
+  "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7": "UUPS (EIP-1822) PROXIABLE slot",
+  "0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3": "ZeppelinOS implementation slot"
+};
+
+// DELEGATECALL operands, top of the stack first
+const DELEGATECALL_OPERANDS = ["gas", "to", "inOffset", "inSize", "outOffset", "outSize"];
+
+export interface ListingOptions {
+  hardfork?: Hardfork;
+  signatures?: SignatureDatabase; // Names PUSH4 selectors; defaults to the bundled signatures
+}
+
+export interface ListedInstruction {
+  pc: number;
+  op: string;
+  pushData?: string;
+  slotName?: string; // PUSHed value is a well-known storage slot
+  jumpLabel?: string; // PUSHed value is the offset of a JUMPDEST
+  signature?: string; // PUSH4 of a known function selector
+  unresolvedJump?: boolean; // Reachable JUMP/JUMPI whose target could not be determined
+  stack?: ListedStackSlot[]; // DELEGATECALL only: the inferred stack before it executes
+}
+
+export interface ListedStackSlot {
+  depth: number; // 0 is the top of the stack
+  operand?: string; // The DELEGATECALL argument this slot is, if any
+  expression: string;
+}
+
+export interface ListedBlock {
+  id: string;
+  label?: string; // Blocks starting with a JUMPDEST
+  startPc: number;
+  endPc: number;
+  reachable: boolean;
+  predecessors: number[];
+  successors: number[];
+  instructions: ListedInstruction[];
+}
+
+export interface Listing {
+  codeSize: number;
+  blocks: ListedBlock[];
+  unresolvedJumps: number[];
+  excludedRegions: ByteRegion[];
+}
+
+/**
+ * Disassembles bytecode into its basic blocks, the way the scanner sees it:
+ * the metadata trailer and (once every jump is resolved) trailing data are
+ * excluded, and every DELEGATECALL carries the stack the tracer inferred for
+ * it. Meant for checking a report's findings against the code.
+ */
+export function buildListing(bytecode: string, opts: ListingOptions = {}): Listing {
+  const code = getBytes(bytecode.startsWith("0x") ? bytecode : `0x${bytecode}`);
+  const compilerMetadata = parseCompilerMetadata(code);
+  const excludedRegions: ByteRegion[] = [];
+  let codeEnd = code.length;
+  if (compilerMetadata) {
+    codeEnd = compilerMetadata.offset;
+    excludedRegions.push({ start: compilerMetadata.offset, end: code.length, kind: "metadata" });
+  }
+
+  let cfg: ControlFlowGraph = buildCFG(
+    decodeBytecode(bytecode, { hardfork: opts.hardfork }).filter((instr) => instr.pc < codeEnd)
+  );
+  const reachableEnd = cfg.unresolvedJumps.length === 0 ? findReachableCodeEnd(cfg) : codeEnd;
+  if (reachableEnd < codeEnd) {
+    excludedRegions.unshift({ start: reachableEnd, end: codeEnd, kind: "data" });
+    cfg = truncateCFG(cfg, reachableEnd);
+  }
+
+  const traceContext = { code };
+  const blockStates = computeBlockStates(cfg, traceContext);
+  const labels = new Map<number, string>();
+  for (const block of cfg.blocks.values()) {
+    if (block.instructions[0]?.op === "JUMPDEST") {
+      labels.set(block.startPc, blockLabel(block.startPc));
+    }
+  }
+  const unresolved = new Set(cfg.unresolvedJumps);
+  const signatures = opts.signatures ?? buildSignatureDatabase();
+
+  const blocks: ListedBlock[] = [];
+  for (const startPc of cfg.blockStarts) {
+    const block = cfg.blocks.get(startPc);
+    if (!block || block.instructions.length === 0) continue;
+
+    const instructions = block.instructions.map((instr): ListedInstruction => {
+      const listed: ListedInstruction = { pc: instr.pc, op: instr.op };
+      if (instr.pushData !== undefined && instr.op !== "PUSH0") {
+        listed.pushData = instr.pushData;
+        listed.slotName = KNOWN_SLOTS[toWord(instr.pushData)];
+        const offset = parseInt(instr.pushData, 16);
+        listed.jumpLabel = instr.pushData.length <= 6 ? labels.get(offset) : undefined;
+        listed.signature = instr.op === "PUSH4" ? signatures.get(instr.pushData.toLowerCase()) : undefined;
+      }
+      if (unresolved.has(instr.pc)) {
+        listed.unresolvedJump = true;
+      }
+      if (instr.op === "DELEGATECALL") {
+        const stack = stateAtPC(cfg, blockStates, instr.pc, traceContext)?.stack ?? [];
+        listed.stack = describeStack(stack, code);
+      }
+      return listed;
+    });
+
+    blocks.push({
+      id: block.id,
+      label: labels.get(startPc),
+      startPc,
+      endPc: block.endPc,
+      reachable: cfg.reachable.has(startPc),
+      predecessors: [...block.predecessors].sort((a, b) => a - b),
+      successors: [...block.successors].sort((a, b) => a - b),
+      instructions
+    });
+  }
+
+  return { codeSize: code.length, blocks, unresolvedJumps: cfg.unresolvedJumps, excludedRegions };
+}
+
+/**
+ * Renders a listing as text: one paragraph per block headed by its range,
+ * label and edges, then one instruction per line with PUSH data, named slots,
+ * named selectors and jump labels as comments, and the stack under each
+ * DELEGATECALL.
+ */
+export function formatListing(listing: Listing): string {
+  const labelOf = new Map(listing.blocks.map((block) => [block.startPc, block.label ?? hex(block.startPc)]));
+  const edges = (pcs: number[]) => (pcs.length > 0 ? pcs.map((pc) => labelOf.get(pc) ?? hex(pc)).join(", ") : "-");
+  const unreachable = listing.blocks.filter((block) => !block.reachable).length;
+
+  const lines = [
+    `${listing.codeSize} bytes, ${listing.blocks.length} blocks` +
+      (unreachable > 0 ? ` (${unreachable} unreachable)` : "") +
+      (listing.unresolvedJumps.length > 0 ? `, ${listing.unresolvedJumps.length} unresolved jump(s)` : ""),
+    ""
+  ];
+
+  for (const block of listing.blocks) {
+    const name = block.label ? `${block.label}:` : `${block.id}:`;
+    lines.push(`${name} ${hex(block.startPc)}-${hex(block.endPc)}${block.reachable ? "" : " (unreachable)"}`);
+    lines.push(`  ; from: ${edges(block.predecessors)}  to: ${edges(block.successors)}`);
+
+    for (const instr of block.instructions) {
+      const comments = [
+        instr.slotName,
+        instr.signature,
+        instr.jumpLabel ? `-> ${instr.jumpLabel}` : undefined,
+        instr.unresolvedJump ? "unresolved target" : undefined
+      ].filter((comment): comment is string => comment !== undefined);
+      const text = `${instr.op}${instr.pushData ? ` ${instr.pushData}` : ""}`;
+      lines.push(`  ${hex(instr.pc)}  ${comments.length > 0 ? `${text.padEnd(24)} ; ${comments.join(", ")}` : text}`);
+
+      for (const slot of instr.stack ?? []) {
+        const operand = (slot.operand ?? "").padEnd(9);
+        lines.push(`          [${slot.depth}] ${operand} ${slot.expression}`);
+      }
+    }
+    lines.push("");
+  }
+
+  for (const region of listing.excludedRegions) {
+    const what = region.kind === "metadata" ? "compiler metadata" : "data after the last reachable instruction";
+    lines.push(`${hex(region.start)}-${hex(region.end - 1)}: ${what} (not disassembled)`);
+  }
+  return lines.join("\n").trimEnd();
+}
+
+function describeStack(stack: StackExpression[], code: Uint8Array): ListedStackSlot[] {
+  return [...stack].reverse().map((value, depth) => ({
+    depth,
+    operand: DELEGATECALL_OPERANDS[depth],
+    expression: nameSlots(formatExpression(simplifyExpression(value)), code)
+  }));
+}
+
+// Replaces full-word literals that are well-known slots with their names, and names the
+// words CODECOPY'd out of the code (solc's constant optimiser keeps slots there)
+function nameSlots(text: string, code: Uint8Array): string {
+  return text
+    .replace(/0x[0-9a-fA-F]{64}/g, (word) => {
+      const name = KNOWN_SLOTS[word.toLowerCase()];
+      return name ? `<${name}>` : word;
+    })
+    .replace(/CODE\[0x([0-9a-f]+)\]/g, (match, offset: string) => {
+      const start = parseInt(offset, 16);
+      const word = hexlify(code.slice(start, start + 32));
+      const name = word.length === 66 ? KNOWN_SLOTS[word] : undefined;
+      return name ? `${match}<${name}>` : match;
+    });
+}
+
+function toWord(pushData: string): string {
+  return `0x${pushData.slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+function blockLabel(pc: number): string {
+  return `loc_${pc.toString(16).padStart(4, "0")}`;
+}
+
+function hex(pc: number): string {
+  return `0x${pc.toString(16).padStart(4, "0")}`;
+}
@@ -0,0 +1,163 @@
+import { encodeBase58, hexlify } from "ethers";
+import { CompilerMetadata } from "../types/analysis";
+
+// ---------------------------------------------------------------------------
+// Minimal CBOR decoder (RFC 8949), covering what compilers emit in metadata
+// ---------------------------------------------------------------------------
+
+type CborValue = number | bigint | string | Uint8Array | boolean | null | CborValue[] | Map<string, CborValue>;
+
+class CborReader {
+  pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(): CborValue {
+    const initial = this.byte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return this.length(info);
+      case 1: {
+        const n = this.length(info);
+        return typeof n === "bigint" ? -1n - n : -1 - n;
+      }
+      case 2:
+        return this.take(this.size(info));
+      case 3:
+        return new TextDecoder("utf-8", { fatal: true }).decode(this.take(this.size(info)));
+      case 4: {
+        const items: CborValue[] = [];
+        const count = this.size(info);
+        for (let i = 0; i < count; i += 1) {
+          items.push(this.read());
+        }
+        return items;
+      }
+      case 5: {
+        const map = new Map<string, CborValue>();
+        const count = this.size(info);
+        for (let i = 0; i < count; i += 1) {
+          const key = this.read();
+          if (typeof key !== "string") throw new Error("unsupported CBOR map key");
+          map.set(key, this.read());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        throw new Error("unsupported CBOR simple value");
+      default:
+        throw new Error("unsupported CBOR major type");
+    }
+  }
+
+  private byte(): number {
+    const b = this.bytes[this.pos];
+    if (b === undefined) throw new Error("truncated CBOR");
+    this.pos += 1;
+    return b;
+  }
+
+  private take(n: number): Uint8Array {
+    if (this.pos + n > this.bytes.length) throw new Error("truncated CBOR");
+    const slice = this.bytes.slice(this.pos, this.pos + n);
+    this.pos += n;
+    return slice;
+  }
+
+  private length(info: number): number | bigint {
+    if (info < 24) return info;
+    const widths: Record<number, number> = { 24: 1, 25: 2, 26: 4, 27: 8 };
+    const width = widths[info];
+    if (width === undefined) throw new Error("unsupported CBOR length encoding");
+    let value = 0n;
+    for (const b of this.take(width)) {
+      value = (value << 8n) | BigInt(b);
+    }
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  private size(info: number): number {
+    const n = this.length(info);
+    if (typeof n !== "number") throw new Error("CBOR item too large");
+    return n;
+  }
+}
+
+function decodeCbor(bytes: Uint8Array): CborValue | null {
+  try {
+    const reader = new CborReader(bytes);
+    const value = reader.read();
+    // Metadata must be exactly one CBOR item filling the declared length
+    return reader.pos === bytes.length ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Compiler metadata trailer
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses the CBOR metadata trailer compilers append to deployed code: the last
+ * two bytes give the CBOR length. Solidity encodes a map (`ipfs`/`bzzr0`/`bzzr1`,
+ * `solc`, `experimental`); Vyper encodes `{"vyper": [major, minor, patch]}`,
+ * wrapped in an array with section sizes since 0.3.10 (where the length also
+ * counts the two length bytes).
+ */
+export function parseCompilerMetadata(code: Uint8Array): CompilerMetadata | null {
+  if (code.length < 4) return null;
+  const declared = ((code[code.length - 2] ?? 0) << 8) | (code[code.length - 1] ?? 0);
+
+  for (const cborLength of [declared, declared - 2]) {
+    const start = code.length - 2 - cborLength;
+    if (cborLength <= 0 || start < 0) continue;
+
+    const value = decodeCbor(code.slice(start, code.length - 2));
+    const metadata = value === null ? null : interpretMetadata(value);
+    if (metadata) {
+      return { ...metadata, offset: start, length: cborLength + 2 };
+    }
+  }
+
+  return null;
+}
+
+function interpretMetadata(value: CborValue): Omit<CompilerMetadata, "offset" | "length"> | null {
+  // Vyper >= 0.3.10: [runtime size, data section sizes, immutables size, { vyper: [...] }]
+  if (Array.isArray(value)) {
+    const last = value[value.length - 1];
+    return last instanceof Map ? interpretMetadata(last) : null;
+  }
+  if (!(value instanceof Map) || value.size === 0) return null;
+
+  const vyper = value.get("vyper");
+  if (Array.isArray(vyper)) {
+    return { compiler: "vyper", version: vyper.map(String).join(".") };
+  }
+
+  const knownKeys = ["ipfs", "bzzr0", "bzzr1", "solc", "experimental"];
+  if (!Array.from(value.keys()).some((key) => knownKeys.includes(key))) {
+    return null;
+  }
+
+  const solc = value.get("solc");
+  const ipfs = value.get("ipfs");
+  const swarm = value.get("bzzr1") ?? value.get("bzzr0");
+  const experimental = value.get("experimental");
+
+  return {
+    // The solc key is absent before 0.5.9 but swarm/ipfs hashes are only emitted by solc
+    compiler: "solc",
+    version: solc instanceof Uint8Array ? Array.from(solc).join(".") : typeof solc === "string" ? solc : undefined,
+    ipfsHash: ipfs instanceof Uint8Array ? encodeBase58(ipfs) : undefined,
+    swarmHash: swarm instanceof Uint8Array ? hexlify(swarm) : undefined,
+    experimental: experimental === true ? true : undefined
+  };
+}
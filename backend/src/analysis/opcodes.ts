@@ -1,50 +1,121 @@
-import { Opcode } from "../types/analysis";
+import { Hardfork, Opcode } from "../types/analysis";
 
-interface OpcodeInfo {
+export interface OpcodeInfo {
+  byte: number;
   name: string;
-  in: number;
-  out: number;
-  pushBytes?: number;
+  stackIn: number;
+  stackOut: number;
+  immediateSize: number;
+  fork: Hardfork;
+  halts: boolean; // Ends execution of the current frame (no fallthrough)
 }
 
-const OPCODES: Record<number, OpcodeInfo> = {};
+// Ordered oldest to newest; an opcode is available in its introduction fork and every later one
+export const HARDFORKS: readonly Hardfork[] = [
+  "frontier",
+  "homestead",
+  "byzantium",
+  "constantinople",
+  "istanbul",
+  "berlin",
+  "london",
+  "paris",
+  "shanghai",
+  "cancun"
+];
 
-function addOpcode(byte: number, name: string, stackIn: number, stackOut: number, pushBytes?: number) {
-  OPCODES[byte] = { name, in: stackIn, out: stackOut, pushBytes };
-}
+export const DEFAULT_HARDFORK: Hardfork = "cancun";
 
-// Populate core opcodes (partial but sufficient for delegatecall analysis)
-// PUSH1 - PUSH32
-for (let i = 0; i < 32; i += 1) {
-  addOpcode(0x60 + i, `PUSH${i + 1}`, 0, 1, i + 1);
-}
+const OPCODES_BY_BYTE = new Map<number, OpcodeInfo>();
+const OPCODES_BY_NAME = new Map<string, OpcodeInfo>();
 
-// DUP1 - DUP16
-for (let i = 0; i < 16; i += 1) {
-  addOpcode(0x80 + i, `DUP${i + 1}`, i + 1, i + 2);
+function addOpcode(
+  byte: number,
+  name: string,
+  stackIn: number,
+  stackOut: number,
+  fork: Hardfork = "frontier",
+  opts: { immediateSize?: number; halts?: boolean } = {}
+) {
+  const info: OpcodeInfo = {
+    byte,
+    name,
+    stackIn,
+    stackOut,
+    immediateSize: opts.immediateSize ?? 0,
+    fork,
+    halts: opts.halts ?? false
+  };
+  OPCODES_BY_BYTE.set(byte, info);
+  OPCODES_BY_NAME.set(name, info);
 }
 
-// SWAP1 - SWAP16
-for (let i = 0; i < 16; i += 1) {
-  addOpcode(0x90 + i, `SWAP${i + 1}`, i + 2, i + 2);
-}
-
-// Common stack ops and calls
-addOpcode(0x00, "STOP", 0, 0);
+// 0x00 - 0x0b: stop and arithmetic
+addOpcode(0x00, "STOP", 0, 0, "frontier", { halts: true });
 addOpcode(0x01, "ADD", 2, 1);
 addOpcode(0x02, "MUL", 2, 1);
 addOpcode(0x03, "SUB", 2, 1);
+addOpcode(0x04, "DIV", 2, 1);
+addOpcode(0x05, "SDIV", 2, 1);
+addOpcode(0x06, "MOD", 2, 1);
+addOpcode(0x07, "SMOD", 2, 1);
+addOpcode(0x08, "ADDMOD", 3, 1);
+addOpcode(0x09, "MULMOD", 3, 1);
+addOpcode(0x0a, "EXP", 2, 1);
+addOpcode(0x0b, "SIGNEXTEND", 2, 1);
+
+// 0x10 - 0x1d: comparison and bitwise logic
 addOpcode(0x10, "LT", 2, 1);
 addOpcode(0x11, "GT", 2, 1);
+addOpcode(0x12, "SLT", 2, 1);
+addOpcode(0x13, "SGT", 2, 1);
 addOpcode(0x14, "EQ", 2, 1);
 addOpcode(0x15, "ISZERO", 1, 1);
+addOpcode(0x16, "AND", 2, 1);
+addOpcode(0x17, "OR", 2, 1);
+addOpcode(0x18, "XOR", 2, 1);
+addOpcode(0x19, "NOT", 1, 1);
+addOpcode(0x1a, "BYTE", 2, 1);
+addOpcode(0x1b, "SHL", 2, 1, "constantinople");
+addOpcode(0x1c, "SHR", 2, 1, "constantinople");
+addOpcode(0x1d, "SAR", 2, 1, "constantinople");
+
+// 0x20: hashing
+addOpcode(0x20, "SHA3", 2, 1);
+
+// 0x30 - 0x3f: environmental information
+addOpcode(0x30, "ADDRESS", 0, 1);
+addOpcode(0x31, "BALANCE", 1, 1);
+addOpcode(0x32, "ORIGIN", 0, 1);
 addOpcode(0x33, "CALLER", 0, 1);
 addOpcode(0x34, "CALLVALUE", 0, 1);
 addOpcode(0x35, "CALLDATALOAD", 1, 1);
 addOpcode(0x36, "CALLDATASIZE", 0, 1);
 addOpcode(0x37, "CALLDATACOPY", 3, 0);
-addOpcode(0x3d, "RETURNDATASIZE", 0, 1);
-addOpcode(0x3e, "RETURNDATACOPY", 3, 0);
+addOpcode(0x38, "CODESIZE", 0, 1);
+addOpcode(0x39, "CODECOPY", 3, 0);
+addOpcode(0x3a, "GASPRICE", 0, 1);
+addOpcode(0x3b, "EXTCODESIZE", 1, 1);
+addOpcode(0x3c, "EXTCODECOPY", 4, 0);
+addOpcode(0x3d, "RETURNDATASIZE", 0, 1, "byzantium");
+addOpcode(0x3e, "RETURNDATACOPY", 3, 0, "byzantium");
+addOpcode(0x3f, "EXTCODEHASH", 1, 1, "constantinople");
+
+// 0x40 - 0x4a: block information
+addOpcode(0x40, "BLOCKHASH", 1, 1);
+addOpcode(0x41, "COINBASE", 0, 1);
+addOpcode(0x42, "TIMESTAMP", 0, 1);
+addOpcode(0x43, "NUMBER", 0, 1);
+addOpcode(0x44, "PREVRANDAO", 0, 1); // DIFFICULTY before Paris
+addOpcode(0x45, "GASLIMIT", 0, 1);
+addOpcode(0x46, "CHAINID", 0, 1, "istanbul");
+addOpcode(0x47, "SELFBALANCE", 0, 1, "istanbul");
+addOpcode(0x48, "BASEFEE", 0, 1, "london");
+addOpcode(0x49, "BLOBHASH", 1, 1, "cancun");
+addOpcode(0x4a, "BLOBBASEFEE", 0, 1, "cancun");
+
+// 0x50 - 0x5e: stack, memory, storage and flow
+addOpcode(0x50, "POP", 1, 0);
 addOpcode(0x51, "MLOAD", 1, 1);
 addOpcode(0x52, "MSTORE", 2, 0);
 addOpcode(0x53, "MSTORE8", 2, 0);
@@ -52,15 +123,82 @@ addOpcode(0x54, "SLOAD", 1, 1);
 addOpcode(0x55, "SSTORE", 2, 0);
 addOpcode(0x56, "JUMP", 1, 0);
 addOpcode(0x57, "JUMPI", 2, 0);
+addOpcode(0x58, "PC", 0, 1);
+addOpcode(0x59, "MSIZE", 0, 1);
+addOpcode(0x5a, "GAS", 0, 1);
 addOpcode(0x5b, "JUMPDEST", 0, 0);
+addOpcode(0x5c, "TLOAD", 1, 1, "cancun");
+addOpcode(0x5d, "TSTORE", 2, 0, "cancun");
+addOpcode(0x5e, "MCOPY", 3, 0, "cancun");
+
+// 0x5f - 0x7f: PUSH0 - PUSH32
+addOpcode(0x5f, "PUSH0", 0, 1, "shanghai");
+for (let i = 0; i < 32; i += 1) {
+  addOpcode(0x60 + i, `PUSH${i + 1}`, 0, 1, "frontier", { immediateSize: i + 1 });
+}
+
+// 0x80 - 0x8f: DUP1 - DUP16
+for (let i = 0; i < 16; i += 1) {
+  addOpcode(0x80 + i, `DUP${i + 1}`, i + 1, i + 2);
+}
+
+// 0x90 - 0x9f: SWAP1 - SWAP16
+for (let i = 0; i < 16; i += 1) {
+  addOpcode(0x90 + i, `SWAP${i + 1}`, i + 2, i + 2);
+}
+
+// 0xa0 - 0xa4: LOG0 - LOG4
+for (let i = 0; i <= 4; i += 1) {
+  addOpcode(0xa0 + i, `LOG${i}`, i + 2, 0);
+}
+
+// 0xf0 - 0xff: system operations
+addOpcode(0xf0, "CREATE", 3, 1);
 addOpcode(0xf1, "CALL", 7, 1);
 addOpcode(0xf2, "CALLCODE", 7, 1);
-addOpcode(0xf4, "DELEGATECALL", 6, 1);
-addOpcode(0xfa, "STATICCALL", 6, 1);
-addOpcode(0xfd, "REVERT", 2, 0);
-addOpcode(0xff, "SELFDESTRUCT", 1, 0);
+addOpcode(0xf3, "RETURN", 2, 0, "frontier", { halts: true });
+addOpcode(0xf4, "DELEGATECALL", 6, 1, "homestead");
+addOpcode(0xf5, "CREATE2", 4, 1, "constantinople");
+addOpcode(0xfa, "STATICCALL", 6, 1, "byzantium");
+addOpcode(0xfd, "REVERT", 2, 0, "byzantium", { halts: true });
+addOpcode(0xfe, "INVALID", 0, 0, "frontier", { halts: true });
+addOpcode(0xff, "SELFDESTRUCT", 1, 0, "frontier", { halts: true });
+
+export function isForkActive(introducedIn: Hardfork, hardfork: Hardfork): boolean {
+  return HARDFORKS.indexOf(introducedIn) <= HARDFORKS.indexOf(hardfork);
+}
+
+/**
+ * Looks up an opcode by mnemonic (e.g. "DELEGATECALL"). Returns null for
+ * undefined bytes, which the decoder renders as "0x.." and which halt like INVALID.
+ */
+export function getOpcodeInfo(name: string): OpcodeInfo | null {
+  return OPCODES_BY_NAME.get(name) ?? null;
+}
 
-export function decodeBytecode(bytecode: string): Opcode[] {
+export function getOpcodeByByte(byte: number, hardfork: Hardfork = DEFAULT_HARDFORK): OpcodeInfo | null {
+  const info = OPCODES_BY_BYTE.get(byte);
+  if (!info || !isForkActive(info.fork, hardfork)) {
+    return null;
+  }
+  return info;
+}
+
+/**
+ * Whether an instruction ends its basic block without falling through to the
+ * next instruction. Undefined opcodes behave like INVALID and halt.
+ */
+export function haltsExecution(op: string): boolean {
+  const info = OPCODES_BY_NAME.get(op);
+  return info ? info.halts : true;
+}
+
+export interface DecodeOptions {
+  hardfork?: Hardfork;
+}
+
+export function decodeBytecode(bytecode: string, opts: DecodeOptions = {}): Opcode[] {
+  const hardfork = opts.hardfork ?? DEFAULT_HARDFORK;
   const clean = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
   const bytes: number[] = [];
   for (let i = 0; i < clean.length; i += 2) {
@@ -72,10 +210,10 @@ export function decodeBytecode(bytecode: string): Opcode[] {
 
   while (pc < bytes.length) {
     const byte = bytes[pc] ?? 0;
-    const info = OPCODES[byte];
+    const info = getOpcodeByByte(byte, hardfork);
 
     if (!info) {
-      // Unknown opcode, treat as 0 stack in/out
+      // Undefined in the selected hardfork: executes as INVALID
       instructions.push({
         pc,
         op: `0x${byte.toString(16).padStart(2, "0")}`,
@@ -87,25 +225,29 @@ export function decodeBytecode(bytecode: string): Opcode[] {
     }
 
     let pushData: string | undefined;
-    if (info.pushBytes && info.pushBytes > 0) {
+    if (info.immediateSize > 0) {
       const start = pc + 1;
-      const end = start + info.pushBytes;
+      const end = start + info.immediateSize;
+      // Immediates running past the end of code are zero-padded, as the EVM does
       const dataBytes = bytes.slice(start, end);
+      while (dataBytes.length < info.immediateSize) {
+        dataBytes.push(0);
+      }
       pushData = `0x${dataBytes.map((b) => b.toString(16).padStart(2, "0")).join("")}`;
-      pc = end;
-    } else {
-      pc += 1;
+    } else if (info.name === "PUSH0") {
+      pushData = "0x00";
     }
 
     instructions.push({
       pc,
       op: info.name,
       pushData,
-      stackIn: info.in,
-      stackOut: info.out
+      stackIn: info.stackIn,
+      stackOut: info.stackOut
     });
+
+    pc += 1 + info.immediateSize;
   }
 
   return instructions;
 }
-
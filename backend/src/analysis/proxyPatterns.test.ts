@@ -0,0 +1,37 @@
+import { assemble } from "../testing/assembler";
+import { analyzeBytecode } from "./delegateScanner";
+
+const IMPL = "0x3000000000000000000000000000000000000003";
+const CLONE_RUNTIME = `0x363d3d373d3d3d363d73${IMPL.slice(2)}5af43d82803e903d91602b57fd5bf3`;
+
+function patternNames(bytecode: string): Array<string | undefined> {
+  return analyzeBytecode(bytecode).sites.map((site) => site.pattern?.name);
+}
+
+describe("clone detection", () => {
+  it("tags a minimal proxy runtime as EIP-1167", () => {
+    expect(patternNames(CLONE_RUNTIME)).toEqual(["EIP-1167"]);
+  });
+
+  it("tags a clone followed by token data as ERC-6551", () => {
+    expect(patternNames(CLONE_RUNTIME + "00".repeat(128))).toEqual(["ERC-6551"]);
+  });
+
+  it("does not tag a factory carrying the clone code in its push data", () => {
+    // Writes the clone's creation code around the implementation like OpenZeppelin's Clones,
+    // and separately forwards calls to a target taken from calldata
+    const factory = assemble([
+      { push: "0x3d602d80600a3d3981f3363d3d373d3d3d363d73" }, "PUSH0", "MSTORE",
+      { push: IMPL }, { push: "0x14" }, "MSTORE",
+      { push: "0x5af43d82803e903d91602b57fd5bf3" }, { push: "0x28" }, "MSTORE",
+      "PUSH0", "CALLDATALOAD",
+      "PUSH0", "PUSH0", "CALLDATASIZE", "PUSH0", "DUP5", "GAS", "DELEGATECALL",
+      "STOP"
+    ]);
+    expect(patternNames(factory)).toEqual([undefined]);
+  });
+
+  it("does not tag a clone with trailing bytes", () => {
+    expect(patternNames(CLONE_RUNTIME + "00")).toEqual([undefined]);
+  });
+});
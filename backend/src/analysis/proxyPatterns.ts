@@ -1,58 +1,200 @@
-import { DelegatecallSite, ProxyPatternMatch, ProxyPatternSummary } from "../types/analysis";
+import { DelegatecallSite, Opcode, ProxyPatternMatch, ProxyPatternSummary, RiskLevel } from "../types/analysis";
+
+export interface PatternContext {
+  bytecode: string; // Lowercase hex without the 0x prefix
+  sites: DelegatecallSite[];
+  storageSlots: Set<string>; // Literal slots any site reads its target from, lowercased
+  // Selectors pushed by instructions, as dispatchers compare them: PUSH4, or left-aligned in a
+  // PUSH32 compared with the whole calldata word. Lowercase without 0x; bytes inside PUSH data
+  // or the metadata trailer never count
+  pushedSelectors: Set<string>;
+}
+
+export interface ProxyPatternDetector {
+  name: string;
+  description: string;
+  riskHint?: RiskLevel; // Counted like a fired rule's severity when set; the highest one wins
+  // Whether `site` follows the pattern; bytecode-level patterns (clones) ignore the site
+  match(site: DelegatecallSite, ctx: PatternContext): boolean;
+}
 
-// Minimal proxy (EIP-1167) patterns (simplified)
+// Minimal proxy (EIP-1167): the whole 45-byte runtime is the clone. Factories carry the same
+// bytes in PUSH data, so the runtime must start with them and end after them
 // 0x363d3d373d3d3d363d73<impl>5af43d82803e903d91602b57fd5bf3
-const EIP1167_PREFIX = "363d3d373d3d3d363d73";
-const EIP1167_SUFFIX = "5af43d82803e903d91602b57fd5bf3";
+const EIP1167_RUNTIME = /^363d3d373d3d3d363d73[0-9a-f]{40}5af43d82803e903d91602b57fd5bf3$/;
+
+// ERC-6551 account: an EIP-1167 clone followed by salt, chain id, token contract and token id
+const ERC6551_RUNTIME = /^363d3d373d3d3d363d73[0-9a-f]{40}5af43d82803e903d91602b57fd5bf3[0-9a-f]{256}$/;
+
+// EIP-3448 MetaProxy: like EIP-1167, but appends the metadata stored after the code to the calldata
+const EIP3448_RUNTIME = /^363d3d373d3d3d3d60368038038091363936013d73[0-9a-f]{40}5af43d3d93803e603457fd5bf3/;
+
+// Clones with immutable args (wighawag): CODECOPYs the args after the calldata before forwarding
+const CLONE_WITH_ARGS_RUNTIME =
+  /^3d3d3d3d363d3d3761[0-9a-f]{4}603736393661[0-9a-f]{4}013d73[0-9a-f]{40}5af43d82803e903d91603557fd5bf3/;
+
+// Vyper's create_forwarder_to: forwards calldata and returns a fixed 4096 bytes
+const VYPER_FORWARDER_RUNTIME = /^366000600037611000600036600073[0-9a-f]{40}5af4602c57600080fd5b6110006000f3/;
 
 // EIP-1967 implementation slot
 const EIP1967_IMPL_SLOT =
   "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc".toLowerCase();
 
-// EIP-1967 admin slot (for transparent proxies)
-const EIP1967_ADMIN_SLOT =
-  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103".toLowerCase();
+// EIP-1967 beacon slot (BeaconProxy)
+const EIP1967_BEACON_SLOT =
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50".toLowerCase();
 
-// UUPS upgradeable slot (EIP-1822)
+// UUPS upgradeable slot (EIP-1822): keccak256("PROXIABLE")
 const UUPS_SLOT =
   "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7".toLowerCase();
 
-export function detectProxyPatterns(bytecode: string, sites: DelegatecallSite[]): DelegatecallSite[] {
-  const clean = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
+// ZeppelinOS (pre-EIP-1967) implementation slot: keccak256("org.zeppelinos.proxy.implementation")
+const ZOS_IMPL_SLOT = "0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3";
+
+// Gnosis Safe proxies keep the singleton (masterCopy) in slot 0 and answer masterCopy() themselves,
+// comparing the calldata word with the selector in a PUSH32
+const SLOT_ZERO = `0x${"0".repeat(64)}`;
+const SAFE_MASTER_COPY_SELECTOR = "a619486e";
+
+// implementation() on IBeacon
+const BEACON_IMPLEMENTATION_SELECTOR = "0x5c60da1b";
+
+// Compound: comptrollerImplementation() on the Unitroller, _setImplementation(address,bool,bytes)
+// on CErc20Delegator. The Unitroller keeps the implementation after admin and pendingAdmin
+const UNITROLLER_SELECTOR = "bb82aa5e";
+const UNITROLLER_IMPL_SLOT = `0x${"2".padStart(64, "0")}`;
+const CTOKEN_DELEGATOR_SELECTOR = "555bcc40";
+
+// Checked in order; the first detector matching a site names its pattern, so more specific
+// patterns come first
+const BUILTIN_PATTERNS: ProxyPatternDetector[] = [
+  {
+    name: "ERC-6551",
+    description: "ERC-6551 token bound account (EIP-1167 clone with token data appended)",
+    riskHint: "medium",
+    match: (_site, ctx) => ERC6551_RUNTIME.test(ctx.bytecode)
+  },
+  {
+    name: "EIP-3448",
+    description: "EIP-3448 MetaProxy (minimal proxy forwarding appended metadata)",
+    riskHint: "medium",
+    match: (_site, ctx) => EIP3448_RUNTIME.test(ctx.bytecode)
+  },
+  {
+    name: "EIP-1167",
+    description: "Minimal proxy clone pattern",
+    riskHint: "medium",
+    match: (_site, ctx) => EIP1167_RUNTIME.test(ctx.bytecode)
+  },
+  {
+    name: "Clones With Immutable Args",
+    description: "Clone forwarding immutable args stored in its code after the calldata",
+    riskHint: "medium",
+    match: (_site, ctx) => CLONE_WITH_ARGS_RUNTIME.test(ctx.bytecode)
+  },
+  {
+    name: "Vyper Forwarder",
+    description: "Vyper create_forwarder_to proxy",
+    riskHint: "medium",
+    match: (_site, ctx) => VYPER_FORWARDER_RUNTIME.test(ctx.bytecode)
+  },
+  {
+    name: "UUPS",
+    description: "UUPS upgradeable proxy pattern",
+    match: (site, ctx) => readsSlot(site, EIP1967_IMPL_SLOT) && ctx.storageSlots.has(UUPS_SLOT)
+  },
+  {
+    name: "EIP-1967",
+    description: "EIP-1967 transparent proxy implementation slot",
+    match: (site) => readsSlot(site, EIP1967_IMPL_SLOT)
+  },
+  {
+    name: "EIP-1822",
+    description: "EIP-1822 proxiable (UUPS) implementation slot keccak256(\"PROXIABLE\")",
+    match: (site) => readsSlot(site, UUPS_SLOT)
+  },
+  {
+    name: "ZeppelinOS",
+    description: "ZeppelinOS legacy proxy implementation slot",
+    match: (site) => readsSlot(site, ZOS_IMPL_SLOT)
+  },
+  {
+    name: "Beacon",
+    description: "Beacon proxy (implementation() of a beacon, e.g. the one in the EIP-1967 beacon slot)",
+    match: (site) => isBeaconLookup(site)
+  },
+  {
+    name: "Safe",
+    description: "Gnosis Safe proxy (singleton/masterCopy in slot 0)",
+    match: (site, ctx) => readsSlot(site, SLOT_ZERO) && ctx.pushedSelectors.has(SAFE_MASTER_COPY_SELECTOR)
+  },
+  {
+    name: "Compound Unitroller",
+    description: "Compound Unitroller (comptrollerImplementation in storage)",
+    match: (site, ctx) => readsSlot(site, UNITROLLER_IMPL_SLOT) && ctx.pushedSelectors.has(UNITROLLER_SELECTOR)
+  },
+  {
+    name: "Compound Delegator",
+    description: "Compound CErc20Delegator (implementation in storage)",
+    match: (site, ctx) =>
+      site.classification.storageSlotLiteral !== undefined && ctx.pushedSelectors.has(CTOKEN_DELEGATOR_SELECTOR)
+  },
+  {
+    name: "Diamond",
+    description: "EIP-2535 Diamond pattern (facet looked up by msg.sig)",
+    match: (site) => isDiamondFacetLookup(site)
+  }
+];
+
+const customPatterns: ProxyPatternDetector[] = [];
+
+/**
+ * Adds a detector to the registry. Registered detectors are checked before the
+ * built-in ones, in registration order, so they can claim sites a built-in
+ * pattern would also match; registering a name again replaces the detector.
+ */
+export function registerProxyPattern(detector: ProxyPatternDetector): void {
+  unregisterProxyPattern(detector.name);
+  customPatterns.push(detector);
+}
 
-  const isEip1167 = detectEip1167(clean);
-  const storageSlots = new Set(
-    sites
-      .map((s) => s.classification.storageSlotLiteral?.toLowerCase())
-      .filter((s): s is string => s !== undefined)
-  );
+export function unregisterProxyPattern(name: string): boolean {
+  const idx = customPatterns.findIndex((detector) => detector.name === name);
+  if (idx === -1) return false;
+  customPatterns.splice(idx, 1);
+  return true;
+}
 
-  // Detect Diamond pattern: multiple delegatecalls with different storage slots
-  const isDiamond = detectDiamondPattern(sites);
+// Every detector in the order they are checked
+export function listProxyPatterns(): ProxyPatternDetector[] {
+  return [...customPatterns, ...BUILTIN_PATTERNS];
+}
+
+// `instructions` is the decoded code without the metadata trailer and embedded data
+export function detectProxyPatterns(
+  bytecode: string,
+  sites: DelegatecallSite[],
+  instructions: Opcode[]
+): DelegatecallSite[] {
+  const clean = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
+  const ctx: PatternContext = {
+    bytecode: clean.toLowerCase(),
+    sites,
+    storageSlots: new Set(
+      sites
+        .flatMap((s) => [s.classification.storageSlotLiteral, ...(s.classification.storageSlots ?? [])])
+        .filter((s): s is string => s !== undefined)
+        .map((s) => s.toLowerCase())
+    ),
+    pushedSelectors: pushedSelectors(instructions)
+  };
+  const detectors = listProxyPatterns();
 
   return sites.map((site) => {
-    let patternMatch: ProxyPatternMatch | null = null;
-
-    if (isEip1167) {
-      patternMatch = {
-        name: "EIP-1167",
-        description: "Minimal proxy clone pattern"
-      };
-    } else if (site.classification.storageSlotLiteral?.toLowerCase() === EIP1967_IMPL_SLOT) {
-      // Check if UUPS slot is also present
-      const hasUUPS = storageSlots.has(UUPS_SLOT);
-      patternMatch = {
-        name: hasUUPS ? "UUPS" : "EIP-1967",
-        description: hasUUPS
-          ? "UUPS upgradeable proxy pattern"
-          : "EIP-1967 transparent proxy implementation slot"
-      };
-    } else if (isDiamond) {
-      patternMatch = {
-        name: "Diamond",
-        description: "EIP-2535 Diamond pattern (multiple facets)"
-      };
-    }
+    const detector = detectors.find((candidate) => candidate.match(site, ctx));
+    const patternMatch: ProxyPatternMatch | null = detector
+      ? { name: detector.name, description: detector.description, riskHint: detector.riskHint }
+      : null;
 
     return {
       ...site,
@@ -61,22 +203,34 @@ export function detectProxyPatterns(bytecode: string, sites: DelegatecallSite[])
   });
 }
 
-function detectDiamondPattern(sites: DelegatecallSite[]): boolean {
-  // Diamond pattern heuristic:
-  // - Multiple delegatecall sites
-  // - All are storage-driven
-  // - Different storage slots (indicating facet mapping)
-  if (sites.length < 2) return false;
+function readsSlot(site: DelegatecallSite, slot: string): boolean {
+  return site.classification.storageSlotLiteral?.toLowerCase() === slot;
+}
 
-  const storageSites = sites.filter((s) => s.classification.type === "storage");
-  if (storageSites.length < 2) return false;
+function pushedSelectors(instructions: Opcode[]): Set<string> {
+  const selectors = new Set<string>();
+  for (const { op, pushData } of instructions) {
+    if (op === "PUSH4" && pushData?.length === 10) {
+      selectors.add(pushData.slice(2));
+    } else if (op === "PUSH32" && pushData && /^0x[0-9a-f]{8}0{56}$/.test(pushData)) {
+      selectors.add(pushData.slice(2, 10));
+    }
+  }
+  return selectors;
+}
 
-  const uniqueSlots = new Set(
-    storageSites.map((s) => s.classification.storageSlotLiteral).filter((s): s is string => s !== undefined)
-  );
+function isBeaconLookup(site: DelegatecallSite): boolean {
+  // The target is what a beacon answers: a call to implementation(), or any call to a
+  // contract whose address sits in the EIP-1967 beacon slot
+  const lookup = site.classification.externalLookup;
+  if (!lookup) return false;
+  return lookup.selector === BEACON_IMPLEMENTATION_SELECTOR || lookup.calleeSlot?.toLowerCase() === EIP1967_BEACON_SLOT;
+}
 
-  // If we have multiple storage-driven delegatecalls with different slots, likely Diamond
-  return uniqueSlots.size >= 2;
+function isDiamondFacetLookup(site: DelegatecallSite): boolean {
+  // Diamond facets are selected per call: the target is read from a storage
+  // mapping keyed by msg.sig (selectorToFacet[msg.sig].facetAddress)
+  return site.classification.type === "storage" && site.classification.mapping?.keySource === "msg.sig";
 }
 
 export function summarizeProxyPatterns(sites: DelegatecallSite[]): ProxyPatternSummary[] {
@@ -90,12 +244,3 @@ export function summarizeProxyPatterns(sites: DelegatecallSite[]): ProxyPatternS
 
   return Object.entries(counts).map(([name, count]) => ({ name, count }));
 }
-
-function detectEip1167(cleanBytecode: string): boolean {
-  const lower = cleanBytecode.toLowerCase();
-  const idx = lower.indexOf(EIP1167_PREFIX);
-  if (idx === -1) return false;
-  const suffixIdx = lower.indexOf(EIP1167_SUFFIX, idx + EIP1167_PREFIX.length + 40); // skip 20-byte impl
-  return suffixIdx !== -1;
-}
-
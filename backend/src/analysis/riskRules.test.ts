@@ -0,0 +1,54 @@
+import { DelegatecallSite, TargetClassification } from "../types/analysis";
+import { evaluateRiskRules, highestRisk, parseRiskRules } from "./riskRules";
+
+function site(classification: TargetClassification, riskHint?: "low" | "medium" | "high"): DelegatecallSite {
+  return {
+    id: "site-0",
+    pc: 0,
+    blockId: "block-0",
+    targetExpression: { kind: "Unknown" },
+    classification,
+    patternMatch: riskHint ? { name: "EIP-1167", description: "Minimal proxy clone pattern", riskHint } : null
+  };
+}
+
+const HARDCODED: TargetClassification = {
+  type: "hardcoded",
+  addressLiteral: "0xbebebebebebebebebebebebebebebebebebebebe"
+};
+
+describe("evaluateRiskRules", () => {
+  it("takes the highest severity among the rules that fire", () => {
+    expect(evaluateRiskRules(site({ type: "calldata" })).risk).toBe("high");
+    expect(evaluateRiskRules(site(HARDCODED)).risk).toBe("low");
+  });
+
+  it("lets a pattern's risk hint raise a rule's severity", () => {
+    const { risk, notes } = evaluateRiskRules(site(HARDCODED, "medium"));
+    expect(risk).toBe("medium");
+    expect(notes).toContain("pattern-risk-hint: EIP-1167 carries medium risk");
+  });
+
+  it("never lets a pattern's risk hint lower a rule's severity", () => {
+    expect(evaluateRiskRules(site({ type: "dynamic" }, "medium")).risk).toBe("high");
+
+    const rules = parseRiskRules({
+      extends: "default",
+      rules: [{ id: "hardcoded-target", when: { targetType: "hardcoded" }, severity: "high", reason: "audit" }]
+    });
+    expect(evaluateRiskRules(site(HARDCODED, "medium"), rules).risk).toBe("high");
+  });
+
+  it("applies adjustments after the severity is picked", () => {
+    const guarded = { ...site({ type: "dynamic" }, "medium"), guards: [{ kind: "storage" as const, pc: 1, details: "msg.sender == SLOAD(0x00)" }] };
+    expect(evaluateRiskRules(guarded).risk).toBe("medium");
+  });
+});
+
+describe("highestRisk", () => {
+  it("ranks unknown above high", () => {
+    expect(highestRisk(["low", "unknown", "high"])).toBe("unknown");
+    expect(highestRisk(["medium", "low"])).toBe("medium");
+    expect(highestRisk([])).toBeUndefined();
+  });
+});
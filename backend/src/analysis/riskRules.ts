@@ -0,0 +1,279 @@
+import { z } from "zod";
+import {
+  AccessGuardKind,
+  CallInput,
+  DelegatecallSite,
+  ExternalLookup,
+  MappingKeySource,
+  RiskLevel,
+  RiskRule,
+  RiskRuleCondition,
+  SuccessHandling,
+  TargetClassification,
+  TargetType
+} from "../types/analysis";
+
+/**
+ * Built-in rules. Each fired rule adds its reason to the site's notes; the
+ * site's base risk is the highest severity among them and a pattern's risk
+ * hint, then `adjust` rules move it one level each.
+ */
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  {
+    id: "hardcoded-target",
+    when: { targetType: ["hardcoded"] },
+    severity: "low",
+    reason: "target is the hardcoded address {address}"
+  },
+  {
+    id: "immutable-target",
+    when: { targetType: ["immutable"], hasAddress: true },
+    severity: "low",
+    reason: "target {address} is fixed at deployment"
+  },
+  {
+    id: "immutable-placeholder",
+    when: { targetType: ["immutable"], hasAddress: false },
+    severity: "unknown",
+    reason: "immutable target is a zero placeholder; scan the deployed code to resolve it"
+  },
+  {
+    id: "proxy-slot",
+    when: { targetType: ["storage"], hasPattern: true },
+    severity: "medium",
+    reason: "upgradeable: {pattern} target read from storage {slot}"
+  },
+  {
+    id: "storage-slot",
+    when: { targetType: ["storage"], hasPattern: false },
+    severity: "medium",
+    reason: "upgradeable: target read from storage {slot}, not a known proxy pattern"
+  },
+  {
+    id: "calldata-keyed-mapping",
+    when: { targetType: ["storage"], mappingKey: ["calldata"] },
+    severity: "high",
+    reason: "target read from a storage mapping keyed by calldata: the caller picks the entry"
+  },
+  {
+    id: "external-lookup",
+    when: { targetType: ["external"], calleeType: ["hardcoded", "immutable", "storage"] },
+    severity: "medium",
+    reason: "upgradeable through another contract: target returned by {callee}"
+  },
+  {
+    id: "caller-chosen-lookup",
+    when: { targetType: ["external"], calleeType: ["calldata", "dynamic"] },
+    severity: "high",
+    reason: "target returned by a contract the caller chooses"
+  },
+  {
+    id: "calldata-target",
+    when: { targetType: ["calldata"] },
+    severity: "high",
+    reason: "caller-controlled target: the address comes from calldata"
+  },
+  {
+    id: "dynamic-target",
+    when: { targetType: ["dynamic"] },
+    severity: "high",
+    reason: "target computed at runtime"
+  },
+  {
+    id: "untraced-target",
+    when: { targetType: ["unknown"] },
+    severity: "unknown",
+    reason: "target could not be traced"
+  },
+  {
+    id: "msg-sender-guard",
+    when: { guarded: true },
+    adjust: "lower",
+    reason: "only reachable past a msg.sender check: {guards}"
+  },
+  {
+    id: "success-ignored",
+    when: { successCheck: ["ignored"] },
+    adjust: "raise",
+    reason: "success flag ignored: no branch depends on the DELEGATECALL result, so a failed call goes unnoticed"
+  }
+];
+
+// Single values are accepted wherever a list is, so hand-written rules stay short
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) =>
+  z.union([schema, z.array(schema)]).transform((value) => (Array.isArray(value) ? value : [value]) as z.infer<T>[]);
+
+const RiskLevelSchema = z.enum(["low", "medium", "high", "unknown"]);
+const TargetTypeSchema = z.enum(["hardcoded", "immutable", "storage", "external", "calldata", "dynamic", "unknown"]);
+
+const RiskRuleConditionSchema = z
+  .object({
+    targetType: oneOrMany(TargetTypeSchema).optional(),
+    pattern: oneOrMany(z.string()).optional(),
+    hasPattern: z.boolean().optional(),
+    slot: oneOrMany(z.string()).optional(),
+    mappingKey: oneOrMany(z.enum(["msg.sig", "caller", "calldata", "literal", "computed"])).optional(),
+    calleeType: oneOrMany(TargetTypeSchema).optional(),
+    hasAddress: z.boolean().optional(),
+    guarded: z.boolean().optional(),
+    guardKind: oneOrMany(z.enum(["storage", "address", "self", "mapping"])).optional(),
+    successCheck: oneOrMany(z.enum(["checked", "bubbled", "ignored"])).optional(),
+    input: oneOrMany(z.enum(["msg.data", "fixed-selector", "constructed", "empty", "unknown"])).optional(),
+    entryPoint: oneOrMany(z.string()).optional()
+  })
+  .strict();
+
+const RiskRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    when: RiskRuleConditionSchema.optional(),
+    severity: RiskLevelSchema.optional(),
+    adjust: z.enum(["raise", "lower"]).optional(),
+    reason: z.string().min(1)
+  })
+  .strict()
+  .refine((rule) => rule.severity !== undefined || rule.adjust !== undefined, {
+    message: "a rule needs a severity or an adjust"
+  });
+
+// A rules file is a list of rules replacing the defaults, or { extends: "default", rules }
+// adding to them (a rule with a default's id replaces that rule)
+export const RiskRulesSchema = z.union([
+  z.array(RiskRuleSchema),
+  z
+    .object({
+      extends: z.literal("default").optional(),
+      rules: z.array(RiskRuleSchema)
+    })
+    .strict()
+]);
+
+export type RiskRulesConfig = z.infer<typeof RiskRulesSchema>;
+
+export function parseRiskRules(input: unknown): RiskRule[] {
+  return resolveRiskRules(RiskRulesSchema.parse(input));
+}
+
+export function resolveRiskRules(parsed: RiskRulesConfig): RiskRule[] {
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+  if (!parsed.extends) {
+    return parsed.rules;
+  }
+
+  const overrides = new Map(parsed.rules.map((rule) => [rule.id, rule]));
+  const merged = DEFAULT_RISK_RULES.map((rule) => overrides.get(rule.id) ?? rule);
+  const defaultIds = new Set(DEFAULT_RISK_RULES.map((rule) => rule.id));
+  return [...merged, ...parsed.rules.filter((rule) => !defaultIds.has(rule.id))];
+}
+
+// Least to most severe, for sites, reports and --fail-on alike: "unknown" outranks high
+export const RISK_ORDER: RiskLevel[] = ["low", "medium", "high", "unknown"];
+
+export function highestRisk(levels: RiskLevel[]): RiskLevel | undefined {
+  return levels.reduce<RiskLevel | undefined>(
+    (acc, level) => (acc === undefined || RISK_ORDER.indexOf(level) > RISK_ORDER.indexOf(acc) ? level : acc),
+    undefined
+  );
+}
+
+export function evaluateRiskRules(
+  site: DelegatecallSite,
+  rules: RiskRule[] = DEFAULT_RISK_RULES
+): { risk: RiskLevel; notes: string[] } {
+  const notes: string[] = [];
+  const severities: RiskLevel[] = [];
+  const adjustments: Array<"raise" | "lower"> = [];
+
+  const hint = site.patternMatch?.riskHint;
+  if (hint) {
+    notes.push(`pattern-risk-hint: ${site.patternMatch?.name} carries ${hint} risk`);
+  }
+
+  for (const rule of rules) {
+    if (!conditionHolds(rule.when ?? {}, site)) continue;
+    notes.push(`${rule.id}: ${renderReason(rule.reason, site)}`);
+    if (rule.severity) severities.push(rule.severity);
+    if (rule.adjust) adjustments.push(rule.adjust);
+  }
+
+  // The hint is one more candidate: it never lowers what a rule (built-in or loaded) asks for
+  if (hint) severities.push(hint);
+  let risk: RiskLevel = highestRisk(severities) ?? "unknown";
+  for (const adjustment of adjustments) {
+    risk = adjustRisk(risk, adjustment);
+  }
+
+  return { risk, notes };
+}
+
+// One level up or down within low..high; an unknown risk stays unknown
+function adjustRisk(risk: RiskLevel, adjustment: "raise" | "lower"): RiskLevel {
+  if (risk === "unknown") return risk;
+  const levels: RiskLevel[] = ["low", "medium", "high"];
+  const idx = levels.indexOf(risk) + (adjustment === "raise" ? 1 : -1);
+  return levels[Math.min(Math.max(idx, 0), levels.length - 1)] ?? risk;
+}
+
+function conditionHolds(when: RiskRuleCondition, site: DelegatecallSite): boolean {
+  const { classification } = site;
+  const guards = site.guards ?? [];
+  const anyOf = <T>(allowed: T[] | undefined, value: T | undefined): boolean =>
+    !allowed || (value !== undefined && allowed.includes(value));
+
+  return (
+    anyOf<TargetType>(when.targetType, classification.type) &&
+    anyOf(when.pattern, site.patternMatch?.name) &&
+    (when.hasPattern === undefined || when.hasPattern === Boolean(site.patternMatch)) &&
+    (!when.slot ||
+      [classification.storageSlotLiteral, ...(classification.storageSlots ?? [])].some(
+        (slot) => slot !== undefined && (when.slot as string[]).some((s) => s.toLowerCase() === slot.toLowerCase())
+      )) &&
+    anyOf<MappingKeySource>(when.mappingKey, classification.mapping?.keySource) &&
+    anyOf<TargetType>(when.calleeType, classification.externalLookup?.calleeType) &&
+    (when.hasAddress === undefined || when.hasAddress === Boolean(classification.addressLiteral)) &&
+    (when.guarded === undefined || when.guarded === guards.length > 0) &&
+    (!when.guardKind || guards.some((guard) => (when.guardKind as AccessGuardKind[]).includes(guard.kind))) &&
+    anyOf<SuccessHandling>(when.successCheck, site.successCheck?.handling) &&
+    anyOf<CallInput>(when.input, site.callArguments?.input) &&
+    (!when.entryPoint || (site.entryPoints ?? []).some((entry) => (when.entryPoint as string[]).includes(entry)))
+  );
+}
+
+function describeCallee(lookup: ExternalLookup): string {
+  const callee =
+    lookup.calleeAddress ?? (lookup.calleeSlot ? `the contract in slot ${lookup.calleeSlot}` : `a ${lookup.calleeType} contract`);
+  return `${lookup.selector ?? "a call"} on ${callee}`;
+}
+
+// "one of {a, b}" over the candidates' values, "?" if some candidate has none
+function describeCandidates(
+  classification: TargetClassification,
+  value: (candidate: TargetClassification) => string | undefined
+): string {
+  const values = (classification.candidates ?? []).map(value);
+  return values.length > 0 && values.every((v) => v !== undefined) ? `one of {${values.join(", ")}}` : "?";
+}
+
+function renderReason(template: string, site: DelegatecallSite): string {
+  const { classification } = site;
+  const lookup = classification.externalLookup;
+  const values: Record<string, string> = {
+    address: classification.addressLiteral ?? describeCandidates(classification, (c) => c.addressLiteral),
+    slot:
+      classification.storageSlotLiteral ??
+      (classification.storageSlots
+        ? `one of {${classification.storageSlots.join(", ")}}`
+        : classification.mapping
+        ? `mapping at ${classification.mapping.baseSlot ?? "?"} keyed by ${classification.mapping.keySource}`
+        : "at a computed slot"),
+    pattern: site.patternMatch?.name ?? "no pattern",
+    mappingKey: classification.mapping?.keySource ?? "?",
+    callee: lookup ? describeCallee(lookup) : "?",
+    guards: (site.guards ?? []).map((guard) => `${guard.details} (pc 0x${guard.pc.toString(16)})`).join("; "),
+    successCheck: site.successCheck?.handling ?? "?",
+    entryPoints: (site.entryPoints ?? []).join(", ")
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
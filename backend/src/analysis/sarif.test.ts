@@ -0,0 +1,51 @@
+import { assemble } from "../testing/assembler";
+import { analyzeBytecode } from "./delegateScanner";
+import { generateSarif, SARIF_SCHEMA } from "./sarif";
+
+const IMPL = "0x3000000000000000000000000000000000000003";
+
+// One DELEGATECALL to a hardcoded address, then one to the address in the first argument. Both
+// drop their success flag, which raises the hardcoded one's low risk to medium
+const BYTECODE = assemble([
+  "PUSH0", "PUSH0", "PUSH0", "PUSH0", { push: IMPL }, "GAS", "DELEGATECALL", "POP",
+  "PUSH0", "PUSH0", "PUSH0", "PUSH0", { push: "0x04" }, "CALLDATALOAD", "GAS", "DELEGATECALL", "POP",
+  "STOP"
+]);
+
+describe("generateSarif", () => {
+  const report = analyzeBytecode(BYTECODE, { contractAddress: "0x1000000000000000000000000000000000000001" });
+  const log = generateSarif(report, { toolVersion: "9.9.9" });
+  const [run] = log.runs;
+
+  it("emits one SARIF 2.1.0 run for the scanner", () => {
+    expect(log.$schema).toBe(SARIF_SCHEMA);
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs).toHaveLength(1);
+    expect(run?.tool.driver).toMatchObject({ name: "delegate-scan", version: "9.9.9" });
+    expect(run?.artifacts).toEqual([
+      expect.objectContaining({
+        location: { uri: `bytecode/${report.bytecodeHash}.hex` },
+        properties: expect.objectContaining({ kind: "runtime", bytecodeHash: report.bytecodeHash })
+      })
+    ]);
+  });
+
+  it("gives each target type its own rule, ranked by its riskiest site", () => {
+    expect(run?.tool.driver.rules.map((rule) => [rule.id, rule.defaultConfiguration.level])).toEqual([
+      ["delegatecall/target/hardcoded", "warning"],
+      ["delegatecall/target/calldata", "error"]
+    ]);
+    expect(run?.tool.driver.rules[1]?.properties["security-severity"]).toBe("8.0");
+  });
+
+  it("locates each result by its pc and fingerprints it by code hash", () => {
+    expect(run?.results.map((result) => [result.ruleIndex, result.level])).toEqual([
+      [0, "warning"],
+      [1, "error"]
+    ]);
+    const [first, second] = run?.results ?? [];
+    expect(first?.locations[0]?.physicalLocation.address).toEqual({ absoluteAddress: 26, kind: "instruction" });
+    expect(second?.locations[0]?.physicalLocation.region).toEqual({ byteOffset: 36, byteLength: 1 });
+    expect(second?.partialFingerprints).toEqual({ "delegatecallSite/v1": `${report.bytecodeHash}:36` });
+  });
+});
@@ -0,0 +1,234 @@
+import { DelegatecallSiteReport, DelegatecallSurfaceReport, RiskLevel, TargetType } from "../types/analysis";
+import { highestRisk } from "./riskRules";
+
+// The subset of SARIF 2.1.0 the scanner emits
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: { driver: SarifDriver };
+  artifacts: SarifArtifact[];
+  results: SarifResult[];
+}
+
+export interface SarifDriver {
+  name: string;
+  version: string;
+  informationUri?: string;
+  rules: SarifRule[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[]; "security-severity": string };
+}
+
+export interface SarifArtifact {
+  location: { uri: string };
+  description?: { text: string };
+  properties: { bytecodeHash: string; contractAddress?: string; kind: "runtime" | "initcode" };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; index: number };
+      region: { byteOffset: number; byteLength: number };
+      address: { absoluteAddress: number; kind: "instruction" };
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+  properties: Record<string, unknown>;
+}
+
+export type SarifLevel = "error" | "warning" | "note";
+
+export const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+export interface SarifOptions {
+  toolVersion?: string;
+}
+
+const LEVELS: Record<RiskLevel, SarifLevel> = {
+  high: "error",
+  medium: "warning",
+  low: "note",
+  unknown: "warning"
+};
+
+// GitHub code scanning ranks security results by this score (critical >= 9, high >= 7, medium >= 4)
+const SECURITY_SEVERITY: Record<RiskLevel, number> = {
+  high: 8.0,
+  medium: 5.5,
+  low: 2.0,
+  unknown: 4.0
+};
+
+const TARGET_DESCRIPTIONS: Record<TargetType, string> = {
+  hardcoded: "DELEGATECALL to a hardcoded address",
+  immutable: "DELEGATECALL to an address fixed at deployment",
+  storage: "DELEGATECALL to an address read from storage",
+  external: "DELEGATECALL to an address returned by another contract",
+  calldata: "DELEGATECALL to an address taken from calldata",
+  dynamic: "DELEGATECALL to an address computed at runtime",
+  unknown: "DELEGATECALL to an untraced address"
+};
+
+/**
+ * Converts a report into a SARIF log with one result per DELEGATECALL site.
+ * Sites matching a proxy pattern share a rule per pattern, the others a rule
+ * per target type. Bytecode has no source lines, so each result is located
+ * by its pc in an artifact named after the bytecode hash. Constructor sites
+ * and the implementations reached with on-chain resolution get their own
+ * artifacts in the same run.
+ */
+export function generateSarif(report: DelegatecallSurfaceReport, opts: SarifOptions = {}): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleRisks = new Map<string, RiskLevel[]>();
+  const artifacts: SarifArtifact[] = [];
+  const results: SarifResult[] = [];
+
+  const addArtifact = (
+    bytecodeHash: string,
+    kind: "runtime" | "initcode",
+    contractAddress: string | undefined
+  ): number => {
+    artifacts.push({
+      location: { uri: artifactUri(bytecodeHash) },
+      description: contractAddress ? { text: `${kind} code of ${contractAddress}` } : undefined,
+      properties: { bytecodeHash, contractAddress, kind }
+    });
+    return artifacts.length - 1;
+  };
+
+  const addSites = (sites: DelegatecallSiteReport[], artifactIndex: number, contractAddress: string | undefined) => {
+    const { uri } = artifacts[artifactIndex].location;
+    const { bytecodeHash } = artifacts[artifactIndex].properties;
+
+    for (const site of sites) {
+      const rule = ruleFor(site);
+      let ruleIndex = rules.findIndex((r) => r.id === rule.id);
+      if (ruleIndex === -1) {
+        rules.push(rule);
+        ruleIndex = rules.length - 1;
+      }
+      ruleRisks.set(rule.id, [...(ruleRisks.get(rule.id) ?? []), site.risk]);
+
+      results.push({
+        ruleId: rule.id,
+        ruleIndex,
+        level: LEVELS[site.risk],
+        message: { text: resultMessage(site, contractAddress) },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri, index: artifactIndex },
+              region: { byteOffset: site.pc, byteLength: 1 },
+              address: { absoluteAddress: site.pc, kind: "instruction" }
+            }
+          }
+        ],
+        // Stable across runs for the same code, so code scanning tracks a site between scans
+        partialFingerprints: { "delegatecallSite/v1": `${bytecodeHash}:${site.pc}` },
+        properties: {
+          risk: site.risk,
+          targetType: site.classification.type,
+          pattern: site.pattern?.name,
+          entryPoints: site.entryPoints,
+          successCheck: site.successCheck?.handling,
+          notes: site.notes
+        }
+      });
+    }
+  };
+
+  const rootIndex = addArtifact(report.bytecodeHash, "runtime", report.contractAddress);
+  addSites(report.sites, rootIndex, report.contractAddress);
+  if (report.initcode) {
+    addSites(report.initcode.sites, addArtifact(report.initcode.bytecodeHash, "initcode", undefined), undefined);
+  }
+  for (const implementation of report.implementations ?? []) {
+    const index = addArtifact(implementation.report.bytecodeHash, "runtime", implementation.address);
+    addSites(implementation.report.sites, index, implementation.address);
+  }
+
+  // A rule's default level is that of its riskiest site; results carry their own level
+  for (const rule of rules) {
+    const risk = highestRisk(ruleRisks.get(rule.id) ?? []) ?? "unknown";
+    rule.defaultConfiguration.level = LEVELS[risk];
+    rule.properties["security-severity"] = SECURITY_SEVERITY[risk].toFixed(1);
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "delegate-scan",
+            version: opts.toolVersion ?? "1.0.0",
+            rules
+          }
+        },
+        artifacts,
+        results
+      }
+    ]
+  };
+}
+
+function ruleFor(site: DelegatecallSiteReport): SarifRule {
+  const type = site.classification.type;
+  const pattern = site.pattern;
+  const tags = ["security", "delegatecall", `target:${type}`];
+
+  if (pattern) {
+    return {
+      id: `delegatecall/pattern/${slug(pattern.name)}`,
+      name: `${pattern.name}Proxy`.replace(/[^A-Za-z0-9]/g, ""),
+      shortDescription: { text: `${pattern.name} proxy DELEGATECALL` },
+      fullDescription: { text: `${pattern.description}. ${TARGET_DESCRIPTIONS[type]}.` },
+      defaultConfiguration: { level: "warning" },
+      properties: { tags: [...tags, `pattern:${pattern.name}`], "security-severity": "0.0" }
+    };
+  }
+
+  return {
+    id: `delegatecall/target/${type}`,
+    name: `Delegatecall${type[0].toUpperCase()}${type.slice(1)}Target`,
+    shortDescription: { text: TARGET_DESCRIPTIONS[type] },
+    fullDescription: { text: `${TARGET_DESCRIPTIONS[type]}; the called code runs with this contract's storage and balance.` },
+    defaultConfiguration: { level: "warning" },
+    properties: { tags, "security-severity": "0.0" }
+  };
+}
+
+function resultMessage(site: DelegatecallSiteReport, contractAddress: string | undefined): string {
+  const where = `DELEGATECALL at pc 0x${site.pc.toString(16)}${contractAddress ? ` in ${contractAddress}` : ""}`;
+  const target = (site.classification.details ?? TARGET_DESCRIPTIONS[site.classification.type]).replace(/\.$/, "");
+  const reasons = site.notes && site.notes.length > 0 ? ` Because: ${site.notes.join("; ")}.` : "";
+  return `${where} (${site.risk} risk): ${target}.${reasons}`;
+}
+
+function artifactUri(bytecodeHash: string): string {
+  return `bytecode/${bytecodeHash}.hex`;
+}
+
+function slug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
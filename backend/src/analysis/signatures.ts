@@ -0,0 +1,90 @@
+import { FunctionFragment, id, JsonFragment } from "ethers";
+import { DelegatecallSiteReport, TargetClassification } from "../types/analysis";
+import bundledSignatures from "./bundledSignatures.json";
+
+// Selector ("0x3659cfe6") -> canonical signature ("upgradeTo(address)")
+export type SignatureDatabase = Map<string, string>;
+
+let bundledDatabase: SignatureDatabase | undefined;
+
+/**
+ * The bundled signatures (proxy admin and upgrade functions, Diamond loupe and
+ * cut, Safe, ERC-20/721/1155, ownership and roles), plus `extra` ones, which
+ * win where a selector collides. Selectors are computed here, so entries are
+ * plain signatures: adding a line to bundledSignatures.json is the whole
+ * update. Nothing is looked up over the network.
+ */
+export function buildSignatureDatabase(extra: string[] = []): SignatureDatabase {
+  if (!bundledDatabase) {
+    bundledDatabase = new Map(bundledSignatures.map((signature) => [selectorOf(signature), signature]));
+  }
+  const database = new Map(bundledDatabase);
+  for (const text of extra) {
+    const signature = normalizeSignature(text);
+    database.set(selectorOf(signature), signature);
+  }
+  return database;
+}
+
+// "function transfer(address to, uint amount)" -> "transfer(address,uint256)"; throws when it is no function
+export function normalizeSignature(text: string): string {
+  return FunctionFragment.from(text.trim()).format("sighash");
+}
+
+export function selectorOf(signature: string): string {
+  return id(signature).slice(0, 10);
+}
+
+// The functions of a JSON or human-readable ABI; throws on an entry that is not a valid fragment
+export function abiSignatures(abi: unknown[]): string[] {
+  const signatures: string[] = [];
+  for (const entry of abi) {
+    try {
+      if (typeof entry === "string") {
+        // Human-readable ABIs also list events and errors
+        if (/^\s*function\s/.test(entry)) signatures.push(normalizeSignature(entry));
+      } else if (((entry as JsonFragment).type ?? "function") === "function") {
+        signatures.push(FunctionFragment.from(entry as JsonFragment).format("sighash"));
+      }
+    } catch {
+      throw new Error(`Invalid ABI entry: ${JSON.stringify(entry)}`);
+    }
+  }
+  return signatures;
+}
+
+/**
+ * Names the selectors that appear in a report's sites (entry points, the
+ * function a fixed-selector payload calls, the call returning an external
+ * target), for the ones the database knows. Undefined when none are known.
+ */
+export function nameSelectors(
+  sites: DelegatecallSiteReport[],
+  database: SignatureDatabase
+): Record<string, string> | undefined {
+  const selectors = new Set<string>();
+  const addLookup = (classification: TargetClassification): void => {
+    if (classification.externalLookup?.selector) selectors.add(classification.externalLookup.selector);
+    classification.candidates?.forEach(addLookup);
+  };
+  for (const site of sites) {
+    for (const entry of site.entryPoints ?? []) {
+      if (entry.startsWith("0x")) selectors.add(entry);
+    }
+    if (site.callArguments?.selector) selectors.add(site.callArguments.selector);
+    addLookup(site.classification);
+  }
+
+  const names: Record<string, string> = {};
+  for (const selector of Array.from(selectors).sort()) {
+    const signature = database.get(selector.toLowerCase());
+    if (signature) names[selector] = signature;
+  }
+  return Object.keys(names).length > 0 ? names : undefined;
+}
+
+// "upgradeTo(address) [0x3659cfe6]" when the selector is named, the selector alone otherwise
+export function describeSelector(selector: string, names?: Record<string, string>): string {
+  const signature = names?.[selector];
+  return signature ? `${signature} [${selector}]` : selector;
+}
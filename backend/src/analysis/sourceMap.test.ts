@@ -0,0 +1,65 @@
+import { assemble } from "../testing/assembler";
+import { decodeBytecode } from "./opcodes";
+import { describeSourceLocation, mapSourceLocations, parseSourceMap, SourceMapping, zeroLinkPlaceholders } from "./sourceMap";
+
+const SOURCE = ["contract Proxy {", "  fallback() external {", "    _delegate();", "  }", "}"].join("\n");
+const CALL_OFFSET = SOURCE.indexOf("_delegate();");
+
+const AST = {
+  nodeType: "SourceUnit",
+  src: `0:${SOURCE.length}:0`,
+  nodes: [
+    {
+      nodeType: "ContractDefinition",
+      name: "Proxy",
+      src: `0:${SOURCE.length}:0`,
+      nodes: [{ nodeType: "FunctionDefinition", kind: "fallback", src: `19:${SOURCE.length - 21}:0` }]
+    }
+  ]
+};
+
+describe("parseSourceMap", () => {
+  it("repeats the previous entry's value for each empty field", () => {
+    expect(parseSourceMap("10:5:0;;:3;20::1;-1:0:-1")).toEqual([
+      { offset: 10, length: 5, sourceId: 0 },
+      { offset: 10, length: 5, sourceId: 0 },
+      { offset: 10, length: 3, sourceId: 0 },
+      { offset: 20, length: 3, sourceId: 1 },
+      { offset: -1, length: 0, sourceId: -1 }
+    ]);
+  });
+});
+
+describe("mapSourceLocations", () => {
+  // PUSH0 PUSH1 0x04 DELEGATECALL STOP at pcs 0, 1, 3 and 4: one source map entry per instruction
+  const instructions = decodeBytecode(assemble(["PUSH0", { push: "0x04" }, "DELEGATECALL", "STOP"]));
+  const mapping: SourceMapping = {
+    sourceMap: `0:${SOURCE.length}:0;;${CALL_OFFSET}:11;-1:0:-1`,
+    sources: { 0: { path: "contracts/Proxy.sol", content: SOURCE, ast: AST } }
+  };
+
+  it("finds the line, column and enclosing definitions of a pc", () => {
+    const location = mapSourceLocations(instructions, [3], mapping).get(3);
+    expect(location).toEqual({
+      file: "contracts/Proxy.sol",
+      offset: CALL_OFFSET,
+      length: 11,
+      line: 3,
+      column: 5,
+      contract: "Proxy",
+      function: "fallback()"
+    });
+    expect(location && describeSourceLocation(location)).toBe("contracts/Proxy.sol:3 in fallback() (Proxy)");
+  });
+
+  it("leaves out compiler-generated code", () => {
+    expect(mapSourceLocations(instructions, [4], mapping).has(4)).toBe(false);
+  });
+});
+
+describe("zeroLinkPlaceholders", () => {
+  it("zeroes library placeholders so unlinked code decodes", () => {
+    const placeholder = `__$${"ab".repeat(17)}$__`;
+    expect(zeroLinkPlaceholders(`73${placeholder}5af4`)).toBe(`0x73${"0".repeat(40)}5af4`);
+  });
+});
@@ -0,0 +1,276 @@
+import { z } from "zod";
+import { Opcode, SourceLocation } from "../types/analysis";
+
+// The parts of solc's compact JSON AST used to name the code around a site
+export interface SolcAstNode {
+  nodeType: string;
+  src: string; // "offset:length:sourceId"
+  name?: string;
+  kind?: string; // FunctionDefinition: "function", "constructor", "fallback", "receive"
+  nodes?: SolcAstNode[];
+}
+
+export interface SourceUnit {
+  path: string;
+  content?: string; // Without it locations have no line or column
+  ast?: SolcAstNode;
+}
+
+// A compiled contract's source map with the source units its file indices refer to
+export interface SourceMapping {
+  sourceMap: string; // solc's compressed "s:l:f:j:m;..." map, one entry per instruction
+  sources: Record<number, SourceUnit>; // By source id
+}
+
+export interface SolcArtifact {
+  contract: string; // "path:Name"
+  bytecode: string; // Runtime code, with library placeholders zeroed
+  initcode?: string;
+  sourceMap?: SourceMapping; // Of the runtime code
+  initcodeSourceMap?: SourceMapping; // Of the creation code
+}
+
+interface SourceMapEntry {
+  offset: number;
+  length: number;
+  sourceId: number; // -1 for code that has no source (compiler-generated)
+}
+
+const BytecodeSchema = z.object({
+  // Hex, where 20-byte link placeholders may stand in for library addresses
+  object: z.string().regex(/^(0x)?([0-9a-fA-F]{2}|__.{36}__)*$/, "Expected hex bytecode"),
+  sourceMap: z.string().optional()
+});
+
+type CompiledBytecode = z.infer<typeof BytecodeSchema>;
+
+// Only the fields SolcAstNode names are kept, and only `nodes` is descended
+const SolcAstNodeSchema: z.ZodType<SolcAstNode> = z.lazy(() =>
+  z.object({
+    nodeType: z.string(),
+    src: z.string(),
+    name: z.string().optional(),
+    kind: z.string().optional(),
+    nodes: z.array(SolcAstNodeSchema).optional()
+  })
+);
+
+const SolcOutputSchema = z.object({
+  contracts: z.record(
+    z.record(
+      z.object({
+        evm: z
+          .object({
+            bytecode: BytecodeSchema.optional(),
+            deployedBytecode: BytecodeSchema.optional()
+          })
+          .optional()
+      })
+    )
+  ),
+  sources: z
+    .record(
+      z.object({
+        id: z.number(),
+        // An AST of another shape only costs naming the definitions around sites
+        ast: SolcAstNodeSchema.optional().catch(undefined)
+      })
+    )
+    .optional()
+});
+
+// Standard-JSON output alone, or a Hardhat build-info file pairing it with its input
+const SolcArtifactSchema = z.union([
+  z.object({
+    input: z.object({ sources: z.record(z.object({ content: z.string().optional() })) }).optional(),
+    output: SolcOutputSchema
+  }),
+  SolcOutputSchema
+]);
+
+// Linker placeholders (`__$<hash>$__`, or `__Name____` before solc 0.5) stand for a 20-byte address
+const LINK_PLACEHOLDER = /__.{36}__/g;
+
+/**
+ * Picks a contract out of solc standard-JSON output (or a build-info file
+ * holding the input too) and returns its code with the source maps that
+ * locate each instruction. Without `contract`, the output must hold a single
+ * deployable contract; otherwise it is matched by name or by "path:Name".
+ */
+export function parseSolcArtifact(content: unknown, contract?: string): SolcArtifact {
+  const parsed = SolcArtifactSchema.parse(content);
+  const output = "output" in parsed ? parsed.output : parsed;
+  const inputSources = "output" in parsed ? parsed.input?.sources ?? {} : {};
+
+  const candidates: Array<{ name: string; deployed: CompiledBytecode; creation?: CompiledBytecode }> = [];
+  for (const [file, contracts] of Object.entries(output.contracts)) {
+    for (const [name, { evm }] of Object.entries(contracts)) {
+      // Interfaces and abstract contracts compile to no code
+      if (evm?.deployedBytecode?.object) {
+        candidates.push({ name: `${file}:${name}`, deployed: evm.deployedBytecode, creation: evm.bytecode });
+      }
+    }
+  }
+
+  const matches = contract
+    ? candidates.filter((candidate) => candidate.name === contract || candidate.name.endsWith(`:${contract}`))
+    : candidates;
+  const available = candidates.map((candidate) => candidate.name).join(", ") || "none";
+  if (matches.length === 0) {
+    throw new Error(contract ? `Contract ${contract} not found; available: ${available}` : "No deployable contract");
+  }
+  if (matches.length > 1) {
+    throw new Error(`Several contracts match; pick one of: ${matches.map((candidate) => candidate.name).join(", ")}`);
+  }
+
+  const sources: Record<number, SourceUnit> = {};
+  for (const [file, source] of Object.entries(output.sources ?? {})) {
+    sources[source.id] = { path: file, content: inputSources[file]?.content, ast: source.ast };
+  }
+
+  const { name, deployed } = matches[0];
+  const creation = matches[0].creation?.object ? matches[0].creation : undefined;
+  return {
+    contract: name,
+    bytecode: zeroLinkPlaceholders(deployed.object),
+    initcode: creation ? zeroLinkPlaceholders(creation.object) : undefined,
+    sourceMap: deployed.sourceMap ? { sourceMap: deployed.sourceMap, sources } : undefined,
+    initcodeSourceMap: creation?.sourceMap ? { sourceMap: creation.sourceMap, sources } : undefined
+  };
+}
+
+/**
+ * Expands solc's compressed source map: entries are `;`-separated, one per
+ * instruction, and each `:`-separated field left empty repeats the previous
+ * entry's value.
+ */
+export function parseSourceMap(sourceMap: string): SourceMapEntry[] {
+  const entries: SourceMapEntry[] = [];
+  let previous: SourceMapEntry = { offset: -1, length: 0, sourceId: -1 };
+  for (const item of sourceMap.split(";")) {
+    const [offset, length, sourceId] = item.split(":");
+    const entry: SourceMapEntry = {
+      offset: offset ? Number(offset) : previous.offset,
+      length: length ? Number(length) : previous.length,
+      sourceId: sourceId ? Number(sourceId) : previous.sourceId
+    };
+    entries.push(entry);
+    previous = entry;
+  }
+  return entries;
+}
+
+/**
+ * Maps each pc in `pcs` to the source it was compiled from. The source map
+ * has one entry per instruction, so a pc's entry is found through its index in
+ * the decoded instructions. Sites in compiler-generated code (no source, or a
+ * Yul utility source missing from `sources`) are left out.
+ */
+export function mapSourceLocations(
+  instructions: Opcode[],
+  pcs: number[],
+  mapping: SourceMapping
+): Map<number, SourceLocation> {
+  const entries = parseSourceMap(mapping.sourceMap);
+  const indexByPc = new Map(instructions.map((instr, idx) => [instr.pc, idx]));
+  const locations = new Map<number, SourceLocation>();
+  const lineStarts = new Map<SourceUnit, number[]>();
+
+  for (const pc of pcs) {
+    const entry = entries[indexByPc.get(pc) ?? -1];
+    const unit = entry && entry.offset >= 0 ? mapping.sources[entry.sourceId] : undefined;
+    if (!entry || !unit) continue;
+
+    const location: SourceLocation = { file: unit.path, offset: entry.offset, length: entry.length };
+    if (unit.content !== undefined) {
+      let starts = lineStarts.get(unit);
+      if (!starts) {
+        starts = findLineStarts(unit.content);
+        lineStarts.set(unit, starts);
+      }
+      const { line, column } = lineAndColumn(starts, entry.offset);
+      location.line = line;
+      location.column = column;
+    }
+    if (unit.ast) {
+      Object.assign(location, enclosingDefinitions(unit.ast, entry.offset, entry.sourceId));
+    }
+    locations.set(pc, location);
+  }
+  return locations;
+}
+
+// "contracts/Proxy.sol:42 in _delegate() (Proxy)"; the byte offset stands in for the line without the source
+export function describeSourceLocation(location: SourceLocation): string {
+  const where = `${location.file}:${location.line ?? `@${location.offset}`}`;
+  const within = location.function ? ` in ${location.function}` : "";
+  return `${where}${within}${location.contract ? ` (${location.contract})` : ""}`;
+}
+
+// Unlinked code still runs through the analysis; library calls just target the zero address
+export function zeroLinkPlaceholders(object: string): string {
+  const hex = object.replace(LINK_PLACEHOLDER, "0".repeat(40));
+  return hex.startsWith("0x") ? hex : `0x${hex}`;
+}
+
+// Line starts as byte offsets, since solc's offsets count UTF-8 bytes
+function findLineStarts(content: string): number[] {
+  const starts = [0];
+  const bytes = Buffer.from(content, "utf8");
+  for (let i = 0; i < bytes.length; i += 1) {
+    if (bytes[i] === 0x0a) starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAndColumn(starts: number[], offset: number): { line: number; column: number } {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if ((starts[mid] ?? 0) <= offset) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return { line: lo + 1, column: offset - (starts[lo] ?? 0) + 1 };
+}
+
+// The innermost contract and function (or modifier) whose source range holds `offset`
+function enclosingDefinitions(
+  ast: SolcAstNode,
+  offset: number,
+  sourceId: number
+): Pick<SourceLocation, "contract" | "function"> {
+  const found: Pick<SourceLocation, "contract" | "function"> = {};
+  const visit = (node: SolcAstNode): void => {
+    const [start, length, id] = node.src.split(":").map(Number);
+    if (id !== sourceId || offset < start || offset >= start + length) return;
+
+    if (node.nodeType === "ContractDefinition") {
+      found.contract = node.name;
+    } else if (node.nodeType === "FunctionDefinition") {
+      found.function = functionName(node);
+    } else if (node.nodeType === "ModifierDefinition") {
+      found.function = `modifier ${node.name ?? ""}`;
+    }
+    for (const child of node.nodes ?? []) {
+      visit(child);
+    }
+  };
+  visit(ast);
+  return found;
+}
+
+function functionName(node: SolcAstNode): string {
+  switch (node.kind) {
+    case "constructor":
+      return "constructor";
+    case "fallback":
+    case "receive":
+      return `${node.kind}()`;
+    default:
+      return `${node.name ?? ""}()`;
+  }
+}
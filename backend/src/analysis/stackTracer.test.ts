@@ -0,0 +1,49 @@
+import { AsmItem, assemble } from "../testing/assembler";
+import { StackExpression } from "../types/analysis";
+import { buildCFG } from "./cfg";
+import { formatExpression } from "./expressionSimplifier";
+import { decodeBytecode } from "./opcodes";
+import { computeBlockStates, stateAtPC } from "./stackTracer";
+
+// The stack top just before the first `op` executes
+function topBefore(items: AsmItem[], op: string): StackExpression | undefined {
+  const code = assemble(items);
+  const instructions = decodeBytecode(code);
+  const cfg = buildCFG(instructions);
+  const pc = instructions.find((instr) => instr.op === op)?.pc ?? -1;
+  const stack = stateAtPC(cfg, computeBlockStates(cfg), pc)?.stack ?? [];
+  return stack[stack.length - 1];
+}
+
+describe("computeBlockStates", () => {
+  it("joins the values two branches push into a value set", () => {
+    const top = topBefore(
+      [
+        "PUSH0", "CALLDATALOAD", { ref: "two" }, "JUMPI",
+        { push: "0x01" }, { ref: "join" }, "JUMP",
+        { label: "two" }, { push: "0x02" },
+        { label: "join" }, "SLOAD", "STOP"
+      ],
+      "SLOAD"
+    );
+    expect(top && formatExpression(top)).toBe("{0x01, 0x02}");
+  });
+
+  it("widens a loop counter to unknown and terminates", () => {
+    // i = 0; do { i = i + 1 } while (10 > i)
+    const counter = topBefore(
+      [
+        "PUSH0",
+        { label: "loop" }, "DUP1", { push: "0x01" }, "ADD", "SWAP1", "POP",
+        "DUP1", { push: "0x0a" }, "GT", { ref: "loop" }, "JUMPI",
+        "STOP"
+      ],
+      "DUP1"
+    );
+    expect(counter?.kind).toBe("Unknown");
+  });
+
+  it("models RETURNDATASIZE as its own value", () => {
+    expect(topBefore(["RETURNDATASIZE", "POP", "STOP"], "POP")).toEqual({ kind: "Environment", source: "RETURNDATASIZE" });
+  });
+});
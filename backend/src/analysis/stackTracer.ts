@@ -1,16 +1,139 @@
 import { StackExpression } from "../types/analysis";
 import { BasicBlock, ControlFlowGraph, getBlockContaining } from "./cfg";
-import { Opcode } from "../types/analysis";
+import { getOpcodeInfo } from "./opcodes";
+import {
+  bigIntToLiteral,
+  leadingSelector,
+  literalToBigInt,
+  simplifyExpression
+} from "./expressionSimplifier";
+import { hashState, joinMemory, joinStacks, joinValues, widenMemory, widenStack } from "./valueDomain";
 
 export interface BlockState {
   stack: StackExpression[];
-  memory: Map<number, StackExpression>; // Simplified memory model
+  memory: Map<number, StackExpression>; // 32-byte words written at constant byte offsets
 }
 
-function applyInstructionToStack(
+export interface TraceContext {
+  code?: Uint8Array; // Bytes of the code being traced, used to resolve CODECOPY and CODESIZE
+  // Bytes not available here follow the code at execution time (constructor arguments
+  // appended to initcode), so CODESIZE and reads past the end are unknown
+  openEnded?: boolean;
+}
+
+// Pure stack-to-stack operations kept symbolically so targets can be simplified later
+const SYMBOLIC_OPS = new Set([
+  "ADD",
+  "SUB",
+  "MUL",
+  "DIV",
+  "SDIV",
+  "MOD",
+  "SMOD",
+  "ADDMOD",
+  "MULMOD",
+  "EXP",
+  "SIGNEXTEND",
+  "LT",
+  "GT",
+  "SLT",
+  "SGT",
+  "EQ",
+  "ISZERO",
+  "AND",
+  "OR",
+  "XOR",
+  "NOT",
+  "BYTE",
+  "SHL",
+  "SHR",
+  "SAR"
+]);
+
+// Largest SHA3 input (in 32-byte words) expanded into a Keccak expression
+const MAX_KECCAK_WORDS = 8;
+
+// Largest CALLDATACOPY/CODECOPY/MCOPY (in bytes) expanded word by word
+const MAX_COPY_BYTES = 32 * 32;
+
+// Memory writes whose content is not modelled; only the written region is invalidated.
+// Value is [destOffset index, size index] in EVM operand order (top of stack = 0).
+const OPAQUE_MEMORY_WRITERS: Record<string, [number, number]> = {
+  EXTCODECOPY: [1, 3],
+  RETURNDATACOPY: [0, 2],
+  CALL: [5, 6],
+  CALLCODE: [5, 6],
+  DELEGATECALL: [4, 5]
+};
+
+function constantOffset(expr: StackExpression): number | null {
+  const value = literalToBigInt(simplifyExpression(expr));
+  return value !== null && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : null;
+}
+
+// Drops every tracked word overlapping [start, start + size)
+function invalidateMemory(memory: Map<number, StackExpression>, start: number, size: number): void {
+  for (const [offset, value] of Array.from(memory.entries())) {
+    if (offset < start + size && offset + 32 > start) {
+      memory.delete(offset);
+      // A constant word overwritten from inside keeps its leading bytes, e.g. a call's
+      // selector once the first argument is stored 4 bytes after it
+      const literal = offset < start ? literalToBigInt(simplifyExpression(value)) : null;
+      if (literal !== null) {
+        const lowBits = BigInt((32 - (start - offset)) * 8);
+        memory.set(offset, {
+          kind: "Op",
+          op: "OR",
+          args: [{ kind: "Unknown" }, bigIntToLiteral((literal >> lowBits) << lowBits)]
+        });
+      }
+    }
+  }
+}
+
+// Invalidates a written region, or all of memory when its bounds are not constant
+function clobberMemory(
+  memory: Map<number, StackExpression>,
+  destExpr: StackExpression,
+  sizeExpr: StackExpression
+): void {
+  const dest = constantOffset(destExpr);
+  const size = constantOffset(sizeExpr);
+  if (dest === null || size === null) {
+    memory.clear();
+  } else if (size > 0) {
+    invalidateMemory(memory, dest, size);
+  }
+}
+
+function readCodeWord(ctx: TraceContext, offset: number): string | undefined {
+  const { code } = ctx;
+  if (!code || (ctx.openEnded && offset + 32 > code.length)) {
+    return undefined;
+  }
+  let hex = "";
+  for (let i = 0; i < 32; i += 1) {
+    // Reads past the end of code yield zero bytes
+    hex += (code[offset + i] ?? 0).toString(16).padStart(2, "0");
+  }
+  return `0x${hex}`;
+}
+
+function addOffset(base: StackExpression, delta: number): StackExpression {
+  if (delta === 0) return base;
+  return simplifyExpression({
+    kind: "Op",
+    op: "ADD",
+    args: [{ kind: "Literal", value: `0x${delta.toString(16).padStart(2, "0")}` }, base]
+  });
+}
+
+export function applyInstructionToStack(
   op: string,
   pushData: string | undefined,
-  stack: StackExpression[]
+  stack: StackExpression[],
+  memory: Map<number, StackExpression> = new Map(),
+  ctx: TraceContext = {}
 ): void {
   const pop = (n: number): StackExpression[] => {
     const res: StackExpression[] = [];
@@ -35,13 +158,15 @@ function applyInstructionToStack(
 
   if (op.startsWith("SWAP")) {
     const n = parseInt(op.slice(4), 10);
-    const top = stack.length - 1;
-    const other = stack.length - 1 - n;
-    if (top >= 0 && other >= 0) {
-      const tmp = stack[top];
-      stack[top] = stack[other];
-      stack[other] = tmp;
+    // Slots below the tracked stack are unknown values; pad so the swap stays aligned
+    while (stack.length < n + 1) {
+      stack.unshift({ kind: "Unknown" });
     }
+    const top = stack.length - 1;
+    const other = top - n;
+    const tmp = stack[top] as StackExpression;
+    stack[top] = stack[other] as StackExpression;
+    stack[other] = tmp;
     return;
   }
 
@@ -68,30 +193,147 @@ function applyInstructionToStack(
       stack.push({ kind: "Environment", source: "ORIGIN" });
       break;
     }
+    case "CALLDATASIZE": {
+      stack.push({ kind: "Environment", source: "CALLDATASIZE" });
+      break;
+    }
+    case "RETURNDATASIZE": {
+      // The size of the last call's return data, whichever call that was
+      stack.push({ kind: "Environment", source: "RETURNDATASIZE" });
+      break;
+    }
+    case "GAS": {
+      stack.push({ kind: "Environment", source: "GAS" });
+      break;
+    }
     case "MLOAD": {
-      pop(1); // offset
-      stack.push({ kind: "Unknown" }); // Memory reads are complex, mark as unknown
+      const [offsetExpr] = pop(1);
+      const offset = constantOffset(offsetExpr);
+      stack.push((offset !== null ? memory.get(offset) : undefined) ?? { kind: "Unknown" });
+      break;
+    }
+    case "CALLDATACOPY": {
+      const [sizeExpr, srcExpr, destExpr] = pop(3);
+      const dest = constantOffset(destExpr);
+      const size = constantOffset(sizeExpr);
+      if (dest === null) {
+        memory.clear();
+        break;
+      }
+      if (size === null) {
+        // Typically CALLDATACOPY(dest, 0, CALLDATASIZE()): everything from dest on is
+        // overwritten; the first word is assumed to be the calldata word at src
+        for (const offset of Array.from(memory.keys())) {
+          if (offset + 32 > dest) memory.delete(offset);
+        }
+        memory.set(dest, { kind: "Calldata", offsetExpr: srcExpr });
+        break;
+      }
+      invalidateMemory(memory, dest, size);
+      if (size % 32 === 0 && size <= MAX_COPY_BYTES) {
+        for (let i = 0; i < size; i += 32) {
+          memory.set(dest + i, { kind: "Calldata", offsetExpr: addOffset(srcExpr, i) });
+        }
+      }
+      break;
+    }
+    case "CODECOPY": {
+      const [sizeExpr, srcExpr, destExpr] = pop(3);
+      const dest = constantOffset(destExpr);
+      const src = constantOffset(srcExpr);
+      const size = constantOffset(sizeExpr);
+      clobberMemory(memory, destExpr, sizeExpr);
+      if (dest === null || src === null || size === null || size % 32 !== 0 || size > MAX_COPY_BYTES) {
+        break;
+      }
+      for (let i = 0; i < size; i += 32) {
+        memory.set(dest + i, {
+          kind: "Code",
+          offset: src + i,
+          value: readCodeWord(ctx, src + i)
+        });
+      }
+      break;
+    }
+    case "MCOPY": {
+      const [sizeExpr, srcExpr, destExpr] = pop(3);
+      const dest = constantOffset(destExpr);
+      const src = constantOffset(srcExpr);
+      const size = constantOffset(sizeExpr);
+      const copied: Array<[number, StackExpression]> = [];
+      if (dest !== null && src !== null && size !== null && size <= MAX_COPY_BYTES) {
+        for (const [offset, value] of memory.entries()) {
+          if (offset >= src && offset + 32 <= src + size) {
+            copied.push([dest + (offset - src), value]);
+          }
+        }
+      }
+      clobberMemory(memory, destExpr, sizeExpr);
+      for (const [offset, value] of copied) {
+        memory.set(offset, value);
+      }
+      break;
+    }
+    case "CODESIZE": {
+      stack.push(
+        ctx.code && !ctx.openEnded
+          ? { kind: "Literal", value: `0x${ctx.code.length.toString(16).padStart(2, "0")}` }
+          : { kind: "Unknown" }
+      );
+      break;
+    }
+    case "MSTORE": {
+      const [value, offsetExpr] = pop(2);
+      const offset = constantOffset(offsetExpr);
+      if (offset === null) {
+        memory.clear();
+        break;
+      }
+      invalidateMemory(memory, offset, 32);
+      memory.set(offset, value);
       break;
     }
-    case "MSTORE":
     case "MSTORE8": {
-      pop(2); // offset, value
+      const [, offsetExpr] = pop(2);
+      const offset = constantOffset(offsetExpr);
+      if (offset === null) {
+        memory.clear();
+      } else {
+        invalidateMemory(memory, offset, 1);
+      }
+      break;
+    }
+    case "SHA3": {
+      const [sizeExpr, offsetExpr] = pop(2);
+      const offset = constantOffset(offsetExpr);
+      const size = constantOffset(sizeExpr);
+      if (offset === null || size === null || size === 0 || size % 32 !== 0 || size / 32 > MAX_KECCAK_WORDS) {
+        stack.push({ kind: "Unknown" });
+        break;
+      }
+      const words: StackExpression[] = [];
+      for (let at = offset; at < offset + size; at += 32) {
+        words.push(memory.get(at) ?? { kind: "Unknown" });
+      }
+      stack.push({ kind: "Keccak", words });
       break;
     }
-    case "ADD":
-    case "SUB":
-    case "MUL":
-    case "DIV":
-    case "MOD":
-    case "AND":
-    case "OR":
-    case "XOR":
-    case "EQ":
-    case "LT":
-    case "GT":
-    case "ISZERO": {
-      const args = pop(op === "ISZERO" ? 1 : 2);
-      stack.push({ kind: "Op", op, args });
+    case "STATICCALL": {
+      // STATICCALL(gas, to, inOffset, inSize, outOffset, outSize): the words written to the
+      // output region are the callee's answer, e.g. a beacon's implementation() result
+      const [outSizeExpr, outOffsetExpr, , inOffsetExpr, target] = pop(6);
+      const inOffset = constantOffset(inOffsetExpr);
+      const input = inOffset !== null ? memory.get(inOffset) : undefined;
+      const selector = input ? leadingSelector(simplifyExpression(input)) ?? undefined : undefined;
+      clobberMemory(memory, outOffsetExpr, outSizeExpr);
+      const out = constantOffset(outOffsetExpr);
+      const size = constantOffset(outSizeExpr);
+      if (out !== null && size !== null && size <= MAX_COPY_BYTES) {
+        for (let i = 0; i + 32 <= size; i += 32) {
+          memory.set(out + i, { kind: "StaticcallResult", target, selector, offset: i });
+        }
+      }
+      stack.push({ kind: "Unknown" }); // Success flag
       break;
     }
     case "POP": {
@@ -99,54 +341,38 @@ function applyInstructionToStack(
       break;
     }
     default: {
-      // For unmodelled ops, conservatively handle stack
-      // This is approximate but keeps analysis tractable
       const info = getOpcodeInfo(op);
-      if (info) {
-        for (let i = 0; i < info.stackIn; i += 1) {
-          pop(1);
-        }
-        for (let i = 0; i < info.stackOut; i += 1) {
-          stack.push({ kind: "Unknown" });
-        }
+      if (!info) {
+        // Undefined opcode: execution halts here, nothing meaningful follows
+        break;
       }
-    }
-  }
-}
 
-function getOpcodeInfo(op: string): { stackIn: number; stackOut: number } | null {
-  // Simplified opcode info - in production, use full opcode table
-  const known: Record<string, { stackIn: number; stackOut: number }> = {
-    STOP: { stackIn: 0, stackOut: 0 },
-    ADD: { stackIn: 2, stackOut: 1 },
-    MUL: { stackIn: 2, stackOut: 1 },
-    SUB: { stackIn: 2, stackOut: 1 },
-    DIV: { stackIn: 2, stackOut: 1 },
-    MOD: { stackIn: 2, stackOut: 1 },
-    AND: { stackIn: 2, stackOut: 1 },
-    OR: { stackIn: 2, stackOut: 1 },
-    XOR: { stackIn: 2, stackOut: 1 },
-    EQ: { stackIn: 2, stackOut: 1 },
-    LT: { stackIn: 2, stackOut: 1 },
-    GT: { stackIn: 2, stackOut: 1 },
-    ISZERO: { stackIn: 1, stackOut: 1 },
-    CALLDATALOAD: { stackIn: 1, stackOut: 1 },
-    CALLDATASIZE: { stackIn: 0, stackOut: 1 },
-    SLOAD: { stackIn: 1, stackOut: 1 },
-    SSTORE: { stackIn: 2, stackOut: 0 },
-    JUMP: { stackIn: 1, stackOut: 0 },
-    JUMPI: { stackIn: 2, stackOut: 0 },
-    DELEGATECALL: { stackIn: 6, stackOut: 1 },
-    CALL: { stackIn: 7, stackOut: 1 },
-    STATICCALL: { stackIn: 6, stackOut: 1 }
-  };
+      const args = pop(info.stackIn);
+      const writesMemory = OPAQUE_MEMORY_WRITERS[op];
+      if (writesMemory) {
+        const [destIdx, sizeIdx] = writesMemory;
+        clobberMemory(
+          memory,
+          args[args.length - 1 - destIdx] ?? { kind: "Unknown" },
+          args[args.length - 1 - sizeIdx] ?? { kind: "Unknown" }
+        );
+      }
 
-  return known[op] ?? null;
+      if (SYMBOLIC_OPS.has(op)) {
+        stack.push({ kind: "Op", op, args });
+        break;
+      }
+      for (let i = 0; i < info.stackOut; i += 1) {
+        stack.push({ kind: "Unknown" });
+      }
+    }
+  }
 }
 
 export function simulateBlock(
   block: BasicBlock,
-  initialState: BlockState
+  initialState: BlockState,
+  ctx: TraceContext = {}
 ): BlockState {
   const state: BlockState = {
     stack: [...initialState.stack],
@@ -154,126 +380,129 @@ export function simulateBlock(
   };
 
   for (const instr of block.instructions) {
-    applyInstructionToStack(instr.op, instr.pushData, state.stack);
+    applyInstructionToStack(instr.op, instr.pushData, state.stack, state.memory, ctx);
   }
 
   return state;
 }
 
 function joinStates(state1: BlockState, state2: BlockState): BlockState {
-  // Simple join: if stacks differ in length or content, mark as unknown
-  // More sophisticated joins would use abstract domains
-  if (state1.stack.length !== state2.stack.length) {
-    return {
-      stack: state1.stack.map(() => ({ kind: "Unknown" as const })),
-      memory: new Map()
-    };
-  }
-
-  const joinedStack: StackExpression[] = [];
-  for (let i = 0; i < state1.stack.length; i += 1) {
-    const expr1 = state1.stack[i];
-    const expr2 = state2.stack[i];
-    if (!expr1 || !expr2) {
-      joinedStack.push({ kind: "Unknown" });
-      continue;
-    }
-
-    // If expressions are identical (by structure), keep; otherwise mark unknown
-    if (JSON.stringify(expr1) === JSON.stringify(expr2)) {
-      joinedStack.push(expr1);
-    } else {
-      joinedStack.push({ kind: "Unknown" });
-    }
-  }
-
   return {
-    stack: joinedStack,
-    memory: new Map()
+    stack: joinStacks(state1.stack, state2.stack, (a, b) =>
+      isZeroOrCallResult(a, b) ? (a.kind === "StaticcallResult" ? a : b) : joinValues(a, b)
+    ),
+    memory: joinMemory(state1.memory, state2.memory)
   };
 }
 
-export function traceStackAtPC(
-  cfg: ControlFlowGraph,
-  targetPc: number
-): StackExpression[] {
-  const targetBlock = getBlockContaining(cfg.blocks, targetPc);
-  if (!targetBlock) {
-    return [];
-  }
+function widenState(previous: BlockState, next: BlockState): BlockState {
+  return {
+    stack: widenStack(previous.stack, next.stack),
+    memory: widenMemory(previous.memory, next.memory)
+  };
+}
 
-  // Worklist algorithm for fixed-point iteration
-  const worklist: number[] = [targetBlock.startPc];
-  const states = new Map<number, BlockState>();
+// Via-IR zero-initialises a call's return variable and decodes into it only when the call
+// succeeded (`let r := 0 if success { r := abi_decode(...) }`); the zero path is the failed
+// call, so the join keeps the decoded value
+function isZeroOrCallResult(a: StackExpression, b: StackExpression): boolean {
+  const [zero, result] = a.kind === "StaticcallResult" ? [b, a] : [a, b];
+  return result.kind === "StaticcallResult" && literalToBigInt(zero) === 0n;
+}
 
-  // Initialize entry block
-  if (cfg.entryBlock) {
-    states.set(cfg.entryBlock.startPc, {
-      stack: [],
-      memory: new Map()
-    });
-  }
+function stateKey(state: BlockState): string {
+  return hashState(state.stack, state.memory);
+}
 
-  while (worklist.length > 0) {
-    const blockPc = worklist.shift();
-    if (blockPc === undefined) continue;
+// Visits after which a block's entry state is widened rather than joined, so values
+// changing around a loop become unknown instead of growing value sets
+const WIDEN_AFTER_VISITS = 3;
+
+// Re-visits allowed per block before its state is frozen; guarantees termination when
+// loops keep changing stack heights
+const MAX_BLOCK_VISITS = 32;
+
+/**
+ * Runs the forward fixed point over the whole CFG once and returns the state
+ * on entry to every block reached from the entry block. Callers that need the
+ * stack at many PCs should compute this once and query it with `stackAtPC`.
+ */
+export function computeBlockStates(cfg: ControlFlowGraph, ctx: TraceContext = {}): Map<number, BlockState> {
+  // Worklist algorithm for fixed-point iteration, forward from the entry block
+  const inStates = new Map<number, BlockState>();
+  const outStates = new Map<number, BlockState>();
+  const visits = new Map<number, number>();
+  const worklist: number[] = cfg.entryBlock ? [cfg.entryBlock.startPc] : [];
+  const queued = new Set<number>(worklist);
+
+  for (let head = 0; head < worklist.length; head += 1) {
+    const blockPc = worklist[head] as number;
+    queued.delete(blockPc);
 
     const block = cfg.blocks.get(blockPc);
     if (!block) continue;
 
+    const visitCount = (visits.get(blockPc) ?? 0) + 1;
+    visits.set(blockPc, visitCount);
+    if (visitCount > MAX_BLOCK_VISITS) continue;
+
     // Get initial state by joining predecessors
-    let initialState: BlockState = {
-      stack: [],
-      memory: new Map()
-    };
-
-    if (block.predecessors.length === 0) {
-      // Entry block
-      initialState = states.get(blockPc) ?? initialState;
-    } else {
-      // Join predecessor states
-      const predStates = block.predecessors
-        .map((predPc) => states.get(predPc))
-        .filter((s): s is BlockState => s !== undefined);
-
-      if (predStates.length > 0) {
-        initialState = predStates.reduce((acc, s) => joinStates(acc, s), predStates[0] ?? initialState);
-      }
+    const predStates = block.predecessors
+      .map((predPc) => outStates.get(predPc))
+      .filter((s): s is BlockState => s !== undefined);
+    if (block === cfg.entryBlock) {
+      // Execution starts here with an empty stack
+      predStates.unshift({ stack: [], memory: new Map() });
     }
+    if (predStates.length === 0) continue;
+
+    const joined = predStates.reduce((acc, s) => joinStates(acc, s), predStates[0] as BlockState);
+    const previous = inStates.get(blockPc);
+    const initialState = previous && visitCount > WIDEN_AFTER_VISITS ? widenState(previous, joined) : joined;
+    inStates.set(blockPc, initialState);
 
     // Simulate block
-    const finalState = simulateBlock(block, initialState);
+    const finalState = simulateBlock(block, initialState, ctx);
 
     // Check if state changed
-    const oldState = states.get(blockPc);
-    const changed =
-      !oldState ||
-      JSON.stringify(oldState.stack) !== JSON.stringify(finalState.stack);
+    const oldState = outStates.get(blockPc);
+    const changed = !oldState || stateKey(oldState) !== stateKey(finalState);
 
     if (changed) {
-      states.set(blockPc, finalState);
+      outStates.set(blockPc, finalState);
 
       // Add successors to worklist
       for (const succPc of block.successors) {
-        if (!worklist.includes(succPc)) {
+        if (!queued.has(succPc)) {
+          queued.add(succPc);
           worklist.push(succPc);
         }
       }
     }
   }
 
-  // Find the instruction within the target block
-  const targetInstr = targetBlock.instructions.find((instr) => instr.pc === targetPc);
-  if (!targetInstr) {
-    return [];
-  }
+  return inStates;
+}
 
-  // Simulate up to the target instruction
-  const blockState = states.get(targetBlock.startPc);
-  if (!blockState) {
-    return [];
+/**
+ * Replays the block containing `targetPc` from its entry state and returns the
+ * state just before that instruction executes.
+ */
+export function stateAtPC(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  targetPc: number,
+  ctx: TraceContext = {}
+): BlockState | null {
+  const targetBlock = getBlockContaining(cfg, targetPc);
+  if (!targetBlock) {
+    return null;
   }
 
+  // Blocks unreachable from the entry (e.g. behind an unresolved jump) are
+  // simulated in isolation from an empty stack
+  const blockState = blockStates.get(targetBlock.startPc) ?? { stack: [], memory: new Map() };
+
   const localState: BlockState = {
     stack: [...blockState.stack],
     memory: new Map(blockState.memory)
@@ -281,10 +510,21 @@ export function traceStackAtPC(
 
   for (const instr of targetBlock.instructions) {
     if (instr.pc === targetPc) {
-      break;
+      return localState;
     }
-    applyInstructionToStack(instr.op, instr.pushData, localState.stack);
+    applyInstructionToStack(instr.op, instr.pushData, localState.stack, localState.memory, ctx);
   }
 
-  return localState.stack;
+  return null;
+}
+
+export function traceStackAtPC(
+  cfg: ControlFlowGraph,
+  targetPc: number,
+  ctx: TraceContext = {}
+): StackExpression[] {
+  if (!getBlockContaining(cfg, targetPc)) {
+    return [];
+  }
+  return stateAtPC(cfg, computeBlockStates(cfg, ctx), targetPc, ctx)?.stack ?? [];
 }
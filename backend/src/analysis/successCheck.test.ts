@@ -0,0 +1,35 @@
+import { AsmItem, assemble } from "../testing/assembler";
+import { SuccessCheck } from "../types/analysis";
+import { analyzeBytecode } from "./delegateScanner";
+
+// DELEGATECALL to the address in the first argument, leaving the success flag on the stack
+const DELEGATE: AsmItem[] = ["PUSH0", "PUSH0", "PUSH0", "PUSH0", { push: "0x04" }, "CALLDATALOAD", "GAS", "DELEGATECALL"];
+
+function successCheckOf(after: AsmItem[]): SuccessCheck | undefined {
+  return analyzeBytecode(assemble([...DELEGATE, ...after])).sites[0]?.successCheck;
+}
+
+describe("analyzeSuccessChecks", () => {
+  it("finds a failure branch that reverts with the callee's return data", () => {
+    const check = successCheckOf([
+      { ref: "ok" }, "JUMPI",
+      "RETURNDATASIZE", "PUSH0", "PUSH0", "RETURNDATACOPY", "RETURNDATASIZE", "PUSH0", "REVERT",
+      { label: "ok" }, "STOP"
+    ]);
+    expect(check).toEqual({ handling: "bubbled", pc: 12 }); // The JUMPI
+  });
+
+  it("counts a branch on the negated flag as checked", () => {
+    const check = successCheckOf(["ISZERO", { ref: "failed" }, "JUMPI", "STOP", { label: "failed" }, "PUSH0", "PUSH0", "REVERT"]);
+    expect(check?.handling).toBe("checked");
+  });
+
+  it("counts a flag returned to the caller as checked", () => {
+    const check = successCheckOf(["PUSH0", "MSTORE", { push: "0x20" }, "PUSH0", "RETURN"]);
+    expect(check).toEqual({ handling: "checked", pc: 10 }); // The MSTORE
+  });
+
+  it("reports a dropped flag as ignored", () => {
+    expect(successCheckOf(["POP", "STOP"])?.handling).toBe("ignored");
+  });
+});
@@ -0,0 +1,275 @@
+import { Opcode, StackExpression, SuccessCheck } from "../types/analysis";
+import { BasicBlock, ControlFlowGraph, getBlockContaining } from "./cfg";
+import { literalToBigInt, simplifyExpression } from "./expressionSimplifier";
+import { getOpcodeInfo, haltsExecution } from "./opcodes";
+import { BlockState, stateAtPC, TraceContext } from "./stackTracer";
+
+// How a stack slot relates to the success flag: the flag itself, its negation
+// (ISZERO), or some other value computed from it
+type FlagValue = "flag" | "negated" | "derived";
+
+// Stack slots holding the flag, by depth from the top of the stack
+type FlagSlots = Map<number, FlagValue>;
+
+interface FlagBranch {
+  jumpiPc: number;
+  value: FlagValue;
+}
+
+// Instructions that hand the flag to someone else to act on (the caller, or a later transaction):
+// the operands it may be in, by depth. MSTORE(offset, value) and SSTORE(key, value) take it as
+// their value, as `return ok` or `lastCallOk = ok` do
+const FLAG_SINKS: Record<string, number[]> = {
+  MSTORE: [1],
+  SSTORE: [1],
+  RETURN: [0, 1]
+};
+
+// Re-visits allowed per block; the slot maps only grow, so this is a safety net
+const MAX_BLOCK_VISITS = 16;
+
+// Blocks searched from a failure branch for the REVERT that handles it
+const MAX_FAILURE_BLOCKS = 32;
+
+/**
+ * Follows the success flag each DELEGATECALL pushes until a JUMPI branches on
+ * it. A site is "bubbled" when the failure branch reverts with the callee's
+ * return data (RETURNDATACOPY + REVERT of a non-constant size), "checked" when
+ * some branch depends on the flag or the flag is returned or stored instead,
+ * and "ignored" when the flag is dropped.
+ */
+export function analyzeSuccessChecks(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  sitePcs: number[],
+  ctx: TraceContext = {}
+): Map<number, SuccessCheck> {
+  const result = new Map<number, SuccessCheck>();
+
+  for (const sitePc of sitePcs) {
+    const block = getBlockContaining(cfg, sitePc);
+    if (!block) continue;
+
+    const { branches, sinkPcs, copiedReturnData } = traceFlag(cfg, block, sitePc);
+    if (branches.length === 0) {
+      result.set(sitePc, sinkPcs.length > 0 ? { handling: "checked", pc: sinkPcs[0] } : { handling: "ignored" });
+      continue;
+    }
+
+    const bubbling = branches.find((branch) =>
+      failureBubbles(cfg, blockStates, branch, copiedReturnData, ctx)
+    );
+    const check = bubbling ?? branches[0];
+    result.set(sitePc, { handling: bubbling ? "bubbled" : "checked", pc: check?.jumpiPc });
+  }
+
+  return result;
+}
+
+function traceFlag(
+  cfg: ControlFlowGraph,
+  siteBlock: BasicBlock,
+  sitePc: number
+): { branches: FlagBranch[]; sinkPcs: number[]; copiedReturnData: boolean } {
+  const branches = new Map<number, FlagBranch>();
+  const sinkPcs = new Set<number>();
+  let copiedReturnData = false;
+
+  const inStates = new Map<number, FlagSlots>();
+  const visits = new Map<number, number>();
+  const worklist: Array<{ block: BasicBlock; slots: FlagSlots; fromIndex: number }> = [];
+
+  const siteIndex = siteBlock.instructions.findIndex((instr) => instr.pc === sitePc);
+  worklist.push({ block: siteBlock, slots: new Map([[0, "flag"]]), fromIndex: siteIndex + 1 });
+
+  while (worklist.length > 0) {
+    const item = worklist.shift();
+    if (!item) continue;
+
+    const slots = new Map(item.slots);
+    const instructions = item.block.instructions.slice(item.fromIndex);
+    for (const instr of instructions) {
+      if (instr.op === "RETURNDATACOPY") {
+        copiedReturnData = true;
+      }
+      if (instr.op === "JUMPI") {
+        // JUMPI(dest, cond): the condition is the second operand
+        const value = slots.get(1);
+        if (value) {
+          const known = branches.get(instr.pc);
+          branches.set(instr.pc, { jumpiPc: instr.pc, value: known ? joinFlagValues(known.value, value) : value });
+        }
+      }
+      if (FLAG_SINKS[instr.op]?.some((depth) => slots.has(depth))) {
+        sinkPcs.add(instr.pc);
+      }
+      applyFlagTransfer(instr, slots);
+    }
+
+    const lastInstr = item.block.instructions[item.block.instructions.length - 1];
+    if (slots.size === 0 || !lastInstr || haltsExecution(lastInstr.op)) continue;
+
+    for (const succPc of item.block.successors) {
+      const succ = cfg.blocks.get(succPc);
+      if (!succ) continue;
+
+      const known = inStates.get(succPc);
+      const joined = known ? joinFlagSlots(known, slots) : slots;
+      if (known && flagSlotsEqual(known, joined)) continue;
+
+      const count = (visits.get(succPc) ?? 0) + 1;
+      if (count > MAX_BLOCK_VISITS) continue;
+      visits.set(succPc, count);
+      inStates.set(succPc, joined);
+      worklist.push({ block: succ, slots: joined, fromIndex: 0 });
+    }
+  }
+
+  return {
+    branches: Array.from(branches.values()).sort((a, b) => a.jumpiPc - b.jumpiPc),
+    sinkPcs: Array.from(sinkPcs).sort((a, b) => a - b),
+    copiedReturnData
+  };
+}
+
+function applyFlagTransfer(instr: Opcode, slots: FlagSlots): void {
+  const shift = (delta: number, from: number): void => {
+    const moved = new Map<number, FlagValue>();
+    for (const [depth, value] of slots.entries()) {
+      if (depth >= from) moved.set(depth + delta, value);
+    }
+    slots.clear();
+    moved.forEach((value, depth) => slots.set(depth, value));
+  };
+
+  if (instr.op.startsWith("DUP")) {
+    const value = slots.get(parseInt(instr.op.slice(3), 10) - 1);
+    shift(1, 0);
+    if (value) slots.set(0, value);
+    return;
+  }
+
+  if (instr.op.startsWith("SWAP")) {
+    const n = parseInt(instr.op.slice(4), 10);
+    const top = slots.get(0);
+    const other = slots.get(n);
+    slots.delete(0);
+    slots.delete(n);
+    if (other) slots.set(0, other);
+    if (top) slots.set(n, top);
+    return;
+  }
+
+  const info = getOpcodeInfo(instr.op);
+  const stackIn = info?.stackIn ?? 0;
+  const stackOut = info?.stackOut ?? 0;
+
+  let input: FlagValue | undefined;
+  for (let depth = 0; depth < stackIn; depth += 1) {
+    const value = slots.get(depth);
+    if (value) input = input ? "derived" : value;
+  }
+
+  shift(stackOut - stackIn, stackIn);
+  if (input && stackOut > 0) {
+    slots.set(0, instr.op === "ISZERO" ? negate(input) : "derived");
+  }
+}
+
+function negate(value: FlagValue): FlagValue {
+  if (value === "flag") return "negated";
+  if (value === "negated") return "flag";
+  return "derived";
+}
+
+function joinFlagValues(a: FlagValue, b: FlagValue): FlagValue {
+  return a === b ? a : "derived";
+}
+
+function joinFlagSlots(a: FlagSlots, b: FlagSlots): FlagSlots {
+  const joined = new Map(a);
+  for (const [depth, value] of b.entries()) {
+    const other = joined.get(depth);
+    joined.set(depth, other ? joinFlagValues(other, value) : value);
+  }
+  return joined;
+}
+
+function flagSlotsEqual(a: FlagSlots, b: FlagSlots): boolean {
+  return a.size === b.size && Array.from(a.entries()).every(([depth, value]) => b.get(depth) === value);
+}
+
+/**
+ * Whether the branch taken when the call fails reverts with the return data.
+ * The jump is taken when the flag is non-zero, so failure falls through;
+ * for ISZERO(flag) failure jumps, and for other derived values either may.
+ */
+function failureBubbles(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  branch: FlagBranch,
+  copiedReturnData: boolean,
+  ctx: TraceContext
+): boolean {
+  const jumpiBlock = getBlockContaining(cfg, branch.jumpiPc);
+  if (!jumpiBlock) return false;
+
+  const fallthroughPc = branch.jumpiPc + 1;
+  const failureStarts = jumpiBlock.successors.filter((succPc) => {
+    if (branch.value === "flag") return succPc === fallthroughPc;
+    if (branch.value === "negated") return succPc !== fallthroughPc;
+    return true;
+  });
+
+  const seen = new Set<number>(failureStarts);
+  const queue = [...failureStarts];
+  let copied = copiedReturnData;
+  let encodesError = false;
+  const revertPcs: number[] = [];
+
+  while (queue.length > 0 && seen.size <= MAX_FAILURE_BLOCKS) {
+    const blockPc = queue.shift();
+    const block = blockPc === undefined ? undefined : cfg.blocks.get(blockPc);
+    if (!block) continue;
+
+    for (const instr of block.instructions) {
+      if (instr.op === "RETURNDATACOPY") copied = true;
+      if (instr.op === "REVERT") revertPcs.push(instr.pc);
+      // MSTORE(offset, value) of a selector in the top 4 bytes: an Error(string) or custom error
+      if (instr.op === "MSTORE" && isErrorSelectorWord(operandAt(cfg, blockStates, instr.pc, 1, ctx))) {
+        encodesError = true;
+      }
+    }
+
+    const lastInstr = block.instructions[block.instructions.length - 1];
+    if (lastInstr && haltsExecution(lastInstr.op)) continue;
+    for (const succPc of block.successors) {
+      if (!seen.has(succPc)) {
+        seen.add(succPc);
+        queue.push(succPc);
+      }
+    }
+  }
+
+  if (!copied || encodesError) return false;
+  // REVERT(offset, size): bubbling forwards however much data the callee returned,
+  // while a bare require(ok) reverts with a constant size
+  return revertPcs.some((revertPc) => literalToBigInt(operandAt(cfg, blockStates, revertPc, 1, ctx)) === null);
+}
+
+// EVM operand μs[index] of the instruction at `pc`, simplified
+function operandAt(
+  cfg: ControlFlowGraph,
+  blockStates: Map<number, BlockState>,
+  pc: number,
+  index: number,
+  ctx: TraceContext
+): StackExpression {
+  const stack = stateAtPC(cfg, blockStates, pc, ctx)?.stack ?? [];
+  return simplifyExpression(stack[stack.length - 1 - index] ?? { kind: "Unknown" });
+}
+
+function isErrorSelectorWord(expr: StackExpression): boolean {
+  const value = literalToBigInt(expr);
+  return value !== null && value !== 0n && value % (1n << 224n) === 0n;
+}
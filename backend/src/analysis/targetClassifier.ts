@@ -1,11 +1,37 @@
-import { StackExpression, TargetClassification } from "../types/analysis";
+import {
+  ExternalLookup,
+  MappingKeySource,
+  StackExpression,
+  StorageMappingLookup,
+  TargetClassification
+} from "../types/analysis";
+import {
+  formatExpression,
+  isMsgSigExpression,
+  literalToBigInt,
+  simplifyExpression
+} from "./expressionSimplifier";
 
 const EIP1967_SLOT =
   "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc".toLowerCase();
 
-export function classifyTarget(expr: StackExpression): TargetClassification {
+const EIP1967_BEACON_SLOT =
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50".toLowerCase();
+
+export function classifyTarget(rawExpr: StackExpression): TargetClassification {
+  // Strip masks/casts and fold constants so the underlying source is classified
+  const expr = simplifyExpression(rawExpr);
+
+  if (expr.kind === "ValueSet") {
+    return classifyCandidates(expr.values.map(classifyTarget));
+  }
+
   if (expr.kind === "Literal") {
     const v = normalize(expr.value);
+    if (v.length === 66) {
+      // Solidity immutables are PUSH32 placeholders patched with the value at deploy time
+      return classifyEmbeddedAddress(literalToBigInt(expr), "immutable (PUSH32 patched at deployment)");
+    }
     if (v.length === 40 || v.length === 42) {
       return {
         type: "hardcoded",
@@ -18,6 +44,14 @@ export function classifyTarget(expr: StackExpression): TargetClassification {
     };
   }
 
+  if (expr.kind === "Code") {
+    // Word copied out of the contract's own bytecode with CODECOPY (e.g. args appended to a clone)
+    return classifyEmbeddedAddress(
+      literalToBigInt(expr),
+      `embedded in code at offset 0x${expr.offset.toString(16)}`
+    );
+  }
+
   if (expr.kind === "Storage") {
     const slot = extractStorageSlotLiteral(expr.slotExpr);
     if (slot) {
@@ -27,23 +61,37 @@ export function classifyTarget(expr: StackExpression): TargetClassification {
         details: slot.toLowerCase() === EIP1967_SLOT ? "EIP-1967 implementation slot" : undefined
       };
     }
+    const mapping = extractMappingLookup(expr.slotExpr);
+    if (mapping) {
+      const base = mapping.baseSlot ? ` at base slot ${mapping.baseSlot}` : "";
+      const field = mapping.fieldOffset ? ` (struct member +${mapping.fieldOffset})` : "";
+      return {
+        type: "storage",
+        mapping,
+        details: `mapping keyed by ${mapping.keySource}${base}${field}`
+      };
+    }
     return {
       type: "storage",
-      details: "non-literal storage slot"
+      details: `non-literal storage slot: ${formatExpression(expr.slotExpr)}`
     };
   }
 
+  if (expr.kind === "StaticcallResult") {
+    return classifyExternalLookup(expr);
+  }
+
   if (expr.kind === "Calldata") {
     return {
       type: "calldata",
-      details: "derived from CALLDATALOAD"
+      details: `derived from ${formatExpression(expr)}`
     };
   }
 
   if (expr.kind === "Op") {
     return {
       type: "dynamic",
-      details: `op(${expr.op})`
+      details: `computed: ${formatExpression(expr)}`
     };
   }
 
@@ -52,15 +100,120 @@ export function classifyTarget(expr: StackExpression): TargetClassification {
   };
 }
 
+/**
+ * Targets that are one of several values (paths disagreeing on the slot or
+ * address): the target has the candidates' type when they share one, e.g.
+ * `storage` with every literal slot in `storageSlots`, and is dynamic otherwise.
+ */
+function classifyCandidates(candidates: TargetClassification[]): TargetClassification {
+  const [first] = candidates;
+  const type = first && candidates.every((c) => c.type === first.type) ? first.type : "dynamic";
+  const slots = candidates.map((c) => c.storageSlotLiteral);
+  const values = candidates.map((c) => c.storageSlotLiteral ?? c.addressLiteral ?? c.details ?? c.type);
+
+  return {
+    type,
+    storageSlots: type === "storage" && slots.every((slot) => slot !== undefined) ? (slots as string[]) : undefined,
+    details: `${type === "storage" ? "storage: " : "one of "}{${values.join(", ")}}`,
+    candidates
+  };
+}
+
+function classifyEmbeddedAddress(value: bigint | null, source: string): TargetClassification {
+  if (value === null || value >= 1n << 160n) {
+    return {
+      type: "unknown",
+      details: `non-address value ${source}`
+    };
+  }
+  if (value === 0n) {
+    // Undeployed artifacts carry zeroed immutables; the real address only exists on-chain
+    return {
+      type: "immutable",
+      details: `${source}; placeholder is zero, scan deployed code to resolve the address`
+    };
+  }
+  return {
+    type: "immutable",
+    addressLiteral: `0x${value.toString(16).padStart(40, "0")}`,
+    details: source
+  };
+}
+
+/**
+ * Targets answered by another contract, e.g. `IBeacon(beacon).implementation()`:
+ * the callee is classified like a target itself, so a beacon read from the
+ * EIP-1967 beacon slot reports that slot.
+ */
+function classifyExternalLookup(expr: Extract<StackExpression, { kind: "StaticcallResult" }>): TargetClassification {
+  const callee = classifyTarget(expr.target);
+  const lookup: ExternalLookup = {
+    calleeType: callee.type,
+    calleeSlot: callee.storageSlotLiteral,
+    calleeAddress: callee.addressLiteral,
+    selector: expr.selector,
+    returnOffset: expr.offset
+  };
+
+  const source = callee.storageSlotLiteral
+    ? callee.storageSlotLiteral.toLowerCase() === EIP1967_BEACON_SLOT
+      ? "beacon in EIP-1967 beacon slot"
+      : `contract in slot ${callee.storageSlotLiteral}`
+    : callee.addressLiteral ?? `${callee.type} contract`;
+  return {
+    type: "external",
+    externalLookup: lookup,
+    details: `returned by STATICCALL ${expr.selector ?? "(unknown selector)"} to ${source}`
+  };
+}
+
 function normalize(v: string): string {
   const clean = v.startsWith("0x") ? v.slice(2) : v;
   return `0x${clean}`;
 }
 
+// Slots are reported as full 32-byte words so PUSH1 0x00, PUSH0 and folded values compare equal
 function extractStorageSlotLiteral(slotExpr: StackExpression): string | null {
-  if (slotExpr.kind === "Literal") {
-    return normalize(slotExpr.value);
+  const value = literalToBigInt(slotExpr);
+  if (value === null) return null;
+  return `0x${value.toString(16).padStart(64, "0")}`;
+}
+
+/**
+ * Recognises Solidity mapping accesses: `keccak(key . baseSlot)`, optionally
+ * offset by a constant to reach a member of a struct value.
+ */
+function extractMappingLookup(slotExpr: StackExpression): StorageMappingLookup | null {
+  let hashExpr = slotExpr;
+  let fieldOffset = 0;
+
+  if (slotExpr.kind === "Op" && slotExpr.op === "ADD" && slotExpr.args.length === 2) {
+    const [x, y] = slotExpr.args as [StackExpression, StackExpression];
+    const offset = literalToBigInt(x) ?? literalToBigInt(y);
+    const inner = literalToBigInt(x) !== null ? y : x;
+    if (offset === null || offset > 0xffffn || inner.kind !== "Keccak") return null;
+    hashExpr = inner;
+    fieldOffset = Number(offset);
   }
-  return null;
+
+  if (hashExpr.kind !== "Keccak" || hashExpr.words.length !== 2) return null;
+
+  const [key, base] = hashExpr.words as [StackExpression, StackExpression];
+  const baseSlot = extractStorageSlotLiteral(base) ?? undefined;
+  const keySource = classifyMappingKey(key);
+
+  return {
+    baseSlot,
+    keySource,
+    keyLiteral: key.kind === "Literal" ? normalize(key.value) : undefined,
+    fieldOffset: fieldOffset > 0 ? fieldOffset : undefined
+  };
 }
 
+function classifyMappingKey(key: StackExpression): MappingKeySource {
+  if (isMsgSigExpression(key)) return "msg.sig";
+  if (key.kind === "Environment" && key.source === "CALLER") return "caller";
+  if (key.kind === "Calldata") return "calldata";
+  if (key.kind === "Literal") return "literal";
+  return "computed";
+}
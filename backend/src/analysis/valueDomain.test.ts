@@ -0,0 +1,72 @@
+import { StackExpression } from "../types/analysis";
+import { hashExpression, joinMemory, joinStacks, joinValues, makeValueSet, MAX_VALUE_SET_WIDTH, widenStack } from "./valueDomain";
+
+const lit = (value: string): StackExpression => ({ kind: "Literal", value });
+const UNKNOWN: StackExpression = { kind: "Unknown" };
+
+describe("hashExpression", () => {
+  it("hashes literals by value", () => {
+    expect(hashExpression(lit("0x01"))).toBe(hashExpression(lit("0x0001")));
+    expect(hashExpression(lit("0x01"))).not.toBe(hashExpression(lit("0x02")));
+  });
+});
+
+describe("makeValueSet", () => {
+  it("flattens nested sets, drops duplicates and orders members canonically", () => {
+    const set = makeValueSet([lit("0x02"), makeValueSet([lit("0x01"), lit("0x0002")])]);
+    expect(hashExpression(set)).toBe(hashExpression(makeValueSet([lit("0x02"), lit("0x01")])));
+    expect(set.kind === "ValueSet" && set.values.length).toBe(2);
+  });
+
+  it("gives up on unknown members and sets wider than the limit", () => {
+    expect(makeValueSet([lit("0x01"), UNKNOWN])).toEqual(UNKNOWN);
+    const wide = Array.from({ length: MAX_VALUE_SET_WIDTH + 1 }, (_, i) => lit(`0x${i.toString(16)}`));
+    expect(makeValueSet(wide)).toEqual(UNKNOWN);
+  });
+
+  it("lets a single value stand for itself", () => {
+    const value = lit("0x01");
+    expect(makeValueSet([value])).toBe(value);
+    expect(makeValueSet([value, lit("0x1")]).kind).toBe("Literal");
+  });
+});
+
+describe("joinValues", () => {
+  it("keeps a value both paths agree on and otherwise joins them into a set", () => {
+    const value = lit("0x01");
+    expect(joinValues(value, lit("0x01"))).toBe(value);
+    expect(joinValues(value, lit("0x02"))).toEqual({ kind: "ValueSet", values: [value, lit("0x02")] });
+  });
+});
+
+describe("joinStacks", () => {
+  it("aligns stacks at the top and keeps slots only one of them has", () => {
+    const deep = lit("0xaa");
+    const joined = joinStacks([deep, lit("0x01")], [lit("0x02")]);
+    expect(joined).toHaveLength(2);
+    expect(joined[0]).toBe(deep);
+    expect(joined[1]?.kind).toBe("ValueSet");
+  });
+});
+
+describe("joinMemory", () => {
+  it("keeps only the words every path wrote", () => {
+    const joined = joinMemory(
+      new Map([
+        [0, lit("0x01")],
+        [32, lit("0x02")]
+      ]),
+      new Map([[0, lit("0x03")]])
+    );
+    expect([...joined.keys()]).toEqual([0]);
+    expect(joined.get(0)?.kind).toBe("ValueSet");
+  });
+});
+
+describe("widenStack", () => {
+  it("makes a slot that still changes between visits unknown", () => {
+    const stable = lit("0x01");
+    const widened = widenStack([stable, lit("0x02")], [stable, makeValueSet([lit("0x02"), lit("0x03")])]);
+    expect(widened).toEqual([stable, UNKNOWN]);
+  });
+});
@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import { StackExpression } from "../types/analysis";
+
+// Most expressions a joined stack slot may hold before it is given up as unknown
+export const MAX_VALUE_SET_WIDTH = 4;
+
+// Hashes longer than this are digested, so a deep expression's hash stays short when it
+// is embedded in its parents'
+const MAX_HASH_LENGTH = 64;
+
+// DUP pushes the same object again, so shared sub-expressions are hashed once
+const hashes = new WeakMap<StackExpression, string>();
+
+/**
+ * Structural hash: two expressions with the same shape and constants hash
+ * alike. Literals hash by value (`PUSH1 0x01` and a folded `0x0001` agree).
+ * Unlike `expressionsEqual`, two unknown values hash the same, which is what
+ * change detection over abstract states needs.
+ */
+export function hashExpression(expr: StackExpression): string {
+  const cached = hashes.get(expr);
+  if (cached !== undefined) return cached;
+
+  let hash: string;
+  switch (expr.kind) {
+    case "Literal": {
+      const clean = (expr.value.startsWith("0x") ? expr.value.slice(2) : expr.value).replace(/^0+/, "");
+      hash = `L${clean.toLowerCase() || "0"}`;
+      break;
+    }
+    case "Storage":
+      hash = `S(${hashExpression(expr.slotExpr)})`;
+      break;
+    case "Calldata":
+      hash = `D(${hashExpression(expr.offsetExpr)})`;
+      break;
+    case "Environment":
+      hash = `E${expr.source}`;
+      break;
+    case "Code":
+      hash = `C${expr.offset}`;
+      break;
+    case "Keccak":
+      hash = `K(${expr.words.map(hashExpression).join(",")})`;
+      break;
+    case "StaticcallResult":
+      hash = `R(${hashExpression(expr.target)},${expr.selector ?? ""},${expr.offset})`;
+      break;
+    case "Op":
+      hash = `${expr.op}(${expr.args.map(hashExpression).join(",")})`;
+      break;
+    case "ValueSet":
+      // Members are kept sorted by hash, so equal sets hash alike
+      hash = `{${expr.values.map(hashExpression).join(",")}}`;
+      break;
+    default:
+      hash = "?";
+  }
+
+  if (hash.length > MAX_HASH_LENGTH) {
+    hash = `#${crypto.createHash("sha1").update(hash).digest("base64")}`;
+  }
+  hashes.set(expr, hash);
+  return hash;
+}
+
+/**
+ * Builds the value set holding `values`: nested sets are flattened and
+ * duplicates dropped. A single value stands for itself, and a set that would
+ * include an unknown value or grow past `MAX_VALUE_SET_WIDTH` is unknown.
+ */
+export function makeValueSet(values: StackExpression[]): StackExpression {
+  const members = new Map<string, StackExpression>();
+  for (const value of values) {
+    for (const member of value.kind === "ValueSet" ? value.values : [value]) {
+      if (member.kind === "Unknown") return { kind: "Unknown" };
+      members.set(hashExpression(member), member);
+    }
+  }
+
+  if (members.size === 0 || members.size > MAX_VALUE_SET_WIDTH) return { kind: "Unknown" };
+  if (members.size === 1) return members.values().next().value as StackExpression;
+  const sorted = Array.from(members.entries()).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return { kind: "ValueSet", values: sorted.map(([, member]) => member) };
+}
+
+// Least upper bound of two values: the value itself when both paths agree, else the set of both
+export function joinValues(a: StackExpression, b: StackExpression): StackExpression {
+  if (a === b || hashExpression(a) === hashExpression(b)) return a;
+  return makeValueSet([a, b]);
+}
+
+/**
+ * Joins two stacks aligned at the top, where the operands of the code that
+ * follows are. A slot only one stack has is kept as is: a path without it
+ * would underflow before reading it, so any path reading it had that value.
+ */
+export function joinStacks(
+  stack1: StackExpression[],
+  stack2: StackExpression[],
+  join: (a: StackExpression, b: StackExpression) => StackExpression = joinValues
+): StackExpression[] {
+  const height = Math.max(stack1.length, stack2.length);
+  const joined: StackExpression[] = [];
+  for (let depth = height - 1; depth >= 0; depth -= 1) {
+    const a = stack1[stack1.length - 1 - depth];
+    const b = stack2[stack2.length - 1 - depth];
+    joined.push(a && b ? join(a, b) : (a ?? b ?? { kind: "Unknown" }));
+  }
+  return joined;
+}
+
+// A word survives a join only if every path wrote one at that offset; differing words join
+// like stack slots
+export function joinMemory(
+  memory1: Map<number, StackExpression>,
+  memory2: Map<number, StackExpression>
+): Map<number, StackExpression> {
+  const joined = new Map<number, StackExpression>();
+  for (const [offset, value] of memory1.entries()) {
+    const other = memory2.get(offset);
+    const word = other ? joinValues(value, other) : undefined;
+    if (word && word.kind !== "Unknown") {
+      joined.set(offset, word);
+    }
+  }
+  return joined;
+}
+
+/**
+ * Widening for loops: a slot whose value still changes between two visits of
+ * a block is unknown from then on, instead of gaining one more expression per
+ * iteration. Slots are compared top-aligned like in `joinStacks`.
+ */
+export function widenStack(previous: StackExpression[], next: StackExpression[]): StackExpression[] {
+  return next.map((value, i) => {
+    const old = previous[previous.length - next.length + i];
+    return old && hashExpression(old) === hashExpression(value) ? value : { kind: "Unknown" as const };
+  });
+}
+
+// Memory words that still change are dropped
+export function widenMemory(
+  previous: Map<number, StackExpression>,
+  next: Map<number, StackExpression>
+): Map<number, StackExpression> {
+  const widened = new Map<number, StackExpression>();
+  for (const [offset, value] of next.entries()) {
+    const old = previous.get(offset);
+    if (old && hashExpression(old) === hashExpression(value)) {
+      widened.set(offset, value);
+    }
+  }
+  return widened;
+}
+
+// Identifies an abstract state for change detection
+export function hashState(stack: StackExpression[], memory: Map<number, StackExpression>): string {
+  const words = Array.from(memory.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([offset, value]) => `${offset}:${hashExpression(value)}`);
+  return `${stack.map(hashExpression).join(" ")}|${words.join(" ")}`;
+}
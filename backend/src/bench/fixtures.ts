@@ -0,0 +1,184 @@
+import { AsmItem, assemble } from "../testing/assembler";
+
+export interface BenchFixture {
+  name: string;
+  description: string;
+  bytecode: string;
+  budgetMs: number; // Median analysis time above which `--check` fails
+}
+
+const EIP1967_IMPL_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+const OWNER_SLOT = "0x00";
+const ADDRESS_MASK = `0x${"ff".repeat(20)}`;
+
+// EIP-170 runtime size limit
+const MAX_RUNTIME_BYTES = 24576;
+
+function selector(i: number): string {
+  return `0x${((0x10000000 + i * 0x9e3779b1) >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+// Forwards the calldata to the EIP-1967 implementation and bubbles its result
+function fallbackProxy(): AsmItem[] {
+  return [
+    { label: "fallback" },
+    "CALLDATASIZE", "PUSH0", "PUSH0", "CALLDATACOPY",
+    "PUSH0", "PUSH0", "CALLDATASIZE", "PUSH0",
+    { push: EIP1967_IMPL_SLOT }, "SLOAD", "GAS", "DELEGATECALL",
+    "RETURNDATASIZE", "PUSH0", "PUSH0", "RETURNDATACOPY",
+    { ref: "fallback_ok" }, "JUMPI",
+    "RETURNDATASIZE", "PUSH0", "REVERT",
+    { label: "fallback_ok" },
+    "RETURNDATASIZE", "PUSH0", "RETURN"
+  ];
+}
+
+// Call sites per internal function, under the CFG builder's limit on calling contexts
+const CALLS_PER_HELPER = 48;
+
+// Shared internal function: (ret, x) -> x & ADDRESS_MASK, returning to ret
+function maskHelper(k: number): AsmItem[] {
+  return [{ label: `helper_${k}` }, { push: ADDRESS_MASK }, "AND", "SWAP1", "JUMP"];
+}
+
+// solc-style dispatcher comparing msg.sig with each selector in turn
+function dispatcher(count: number): AsmItem[] {
+  const items: AsmItem[] = [
+    { push: "0x80" }, { push: "0x40" }, "MSTORE",
+    { push: "0x04" }, "CALLDATASIZE", "LT", { ref: "fallback" }, "JUMPI",
+    "PUSH0", "CALLDATALOAD", { push: "0xe0" }, "SHR"
+  ];
+  for (let i = 0; i < count; i += 1) {
+    items.push("DUP1", { push: selector(i) }, "EQ", { ref: `fn_${i}` }, "JUMPI");
+  }
+  items.push({ ref: "fallback" }, "JUMP");
+  return items;
+}
+
+// DELEGATECALL with no calldata to the target on top of the stack, reverting on failure
+function delegatecallTop(id: string): AsmItem[] {
+  return [
+    "PUSH0", "PUSH0", "PUSH0", "PUSH0", "DUP5", "GAS", "DELEGATECALL",
+    { ref: `${id}_ok` }, "JUMPI", "PUSH0", "DUP1", "REVERT",
+    { label: `${id}_ok` }, "POP", "STOP"
+  ];
+}
+
+/**
+ * An owner-guarded function that counts to ten in a loop, masks its argument
+ * with shared helpers `calls` times, then delegatecalls a target chosen by
+ * `i`: a storage slot of its own, its (masked) argument, or a facet looked up
+ * by msg.sig.
+ */
+function guardedFunction(i: number, calls: number, helpers: number): AsmItem[] {
+  const id = `fn_${i}`;
+  const items: AsmItem[] = [
+    { label: id },
+    "CALLER", { push: OWNER_SLOT }, "SLOAD", "EQ", { ref: `${id}_auth` }, "JUMPI",
+    "PUSH0", "DUP1", "REVERT",
+    { label: `${id}_auth` },
+    "PUSH0",
+    { label: `${id}_loop` },
+    "DUP1", { push: "0x0a" }, "GT", "ISZERO", { ref: `${id}_done` }, "JUMPI",
+    { push: "0x01" }, "ADD", { ref: `${id}_loop` }, "JUMP",
+    { label: `${id}_done` },
+    "POP",
+    { push: "0x04" }, "CALLDATALOAD"
+  ];
+  for (let c = 0; c < calls; c += 1) {
+    const helper = `helper_${(i * calls + c) % helpers}`;
+    items.push({ ref: `${id}_ret_${c}` }, "SWAP1", { ref: helper }, "JUMP", { label: `${id}_ret_${c}` });
+  }
+
+  switch (i % 3) {
+    case 0:
+      items.push("POP", { push: `0x${(i + 1).toString(16)}` }, "SLOAD");
+      break;
+    case 1:
+      break; // The masked calldata argument
+    default:
+      items.push(
+        "POP", "DUP1", "PUSH0", "MSTORE", { push: "0x2a" }, { push: "0x20" }, "MSTORE",
+        { push: "0x40" }, "PUSH0", "SHA3", "SLOAD"
+      );
+  }
+  return [...items, ...delegatecallTop(id)];
+}
+
+function codeSize(items: AsmItem[]): number {
+  return (assemble(items).length - 2) / 2;
+}
+
+// Most functions that fit in `bytes`; each one adds about the same size
+function functionsFilling(bytes: number, calls: number): number {
+  const base = codeSize(contract(1, calls));
+  const perFunction = codeSize(contract(2, calls)) - base;
+  let count = 1 + Math.floor((bytes - base) / perFunction);
+  while (count > 1 && codeSize(contract(count, calls)) > bytes) {
+    count -= 1;
+  }
+  return count;
+}
+
+function contract(count: number, calls: number): AsmItem[] {
+  const helpers = Math.max(1, Math.ceil((count * calls) / CALLS_PER_HELPER));
+  const items: AsmItem[] = dispatcher(count);
+  for (let i = 0; i < count; i += 1) {
+    items.push(...guardedFunction(i, calls, helpers));
+  }
+  for (let k = 0; k < helpers; k += 1) {
+    items.push(...maskHelper(k));
+  }
+  return [...items, ...fallbackProxy()];
+}
+
+// One long block of memory writes (cycling over 64 words) before a single DELEGATECALL
+function straightLine(bytes: number): AsmItem[] {
+  const head: AsmItem[] = [{ push: "0x04" }, "CALLDATALOAD"];
+  const tail = delegatecallTop("site");
+  const writes: AsmItem[] = [];
+  let size = codeSize([...head, ...tail]);
+  for (let i = 0; ; i += 1) {
+    const write: AsmItem[] = [{ push: `0x${((i % 251) + 1).toString(16)}` }, { push: `0x${((i % 64) * 32).toString(16)}` }, "MSTORE"];
+    size += codeSize(write);
+    if (size > bytes) break;
+    writes.push(...write);
+  }
+  return [...head, ...writes, ...tail];
+}
+
+let cached: BenchFixture[] | null = null;
+
+/**
+ * Synthetic contracts at the EIP-170 size limit, generated deterministically
+ * so no large hex is checked in. Each stresses a different part of the
+ * analysis: many sites, many calling contexts of a shared internal function,
+ * and one very long basic block.
+ */
+export function benchFixtures(): BenchFixture[] {
+  if (cached) return cached;
+
+  const sitesCount = functionsFilling(MAX_RUNTIME_BYTES, 1);
+  const helpersCount = functionsFilling(MAX_RUNTIME_BYTES, 6);
+  cached = [
+    {
+      name: "many-sites",
+      description: `${sitesCount} guarded functions with a DELEGATECALL each, behind a linear dispatcher`,
+      bytecode: assemble(contract(sitesCount, 1)),
+      budgetMs: 5000
+    },
+    {
+      name: "shared-helper",
+      description: `${helpersCount} functions calling internal functions 6 times each (${CALLS_PER_HELPER} call sites per internal function)`,
+      bytecode: assemble(contract(helpersCount, 6)),
+      budgetMs: 5000
+    },
+    {
+      name: "long-block",
+      description: "a single basic block of arithmetic ending in one DELEGATECALL",
+      bytecode: assemble(straightLine(MAX_RUNTIME_BYTES)),
+      budgetMs: 2000
+    }
+  ];
+  return cached;
+}
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+import { performance } from "perf_hooks";
+import { Command } from "commander";
+import { analyzeBytecode } from "../analysis/delegateScanner";
+import { benchFixtures } from "./fixtures";
+
+interface BenchResult {
+  name: string;
+  bytes: number;
+  sites: number;
+  medianMs: number;
+  minMs: number;
+  budgetMs: number;
+}
+
+const program = new Command();
+
+program
+  .name("delegate-scan-bench")
+  .description("Times analyzeBytecode on large synthetic contracts")
+  .option("--runs <n>", "Timed runs per fixture (after one warm-up run)", "5")
+  .option("--filter <name>", "Only run fixtures whose name contains this")
+  .option("--check", "Exit with an error when a fixture's median exceeds its budget", false)
+  .option("--json", "Output JSON results", false);
+
+program.action((opts) => {
+  const runs = Number(opts.runs);
+  if (!Number.isInteger(runs) || runs < 1) {
+    console.error("--runs must be a positive integer.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const results: BenchResult[] = [];
+  for (const fixture of benchFixtures()) {
+    if (opts.filter && !fixture.name.includes(opts.filter as string)) continue;
+
+    const report = analyzeBytecode(fixture.bytecode);
+    const times: number[] = [];
+    for (let i = 0; i < runs; i += 1) {
+      const start = performance.now();
+      analyzeBytecode(fixture.bytecode);
+      times.push(performance.now() - start);
+    }
+    times.sort((a, b) => a - b);
+
+    const result: BenchResult = {
+      name: fixture.name,
+      bytes: (fixture.bytecode.length - 2) / 2,
+      sites: report.delegatecallCount,
+      medianMs: times[Math.floor(times.length / 2)] ?? 0,
+      minMs: times[0] ?? 0,
+      budgetMs: fixture.budgetMs
+    };
+    results.push(result);
+    if (!opts.json) {
+      console.log(
+        `${result.name.padEnd(14)} ${String(result.bytes).padStart(6)} bytes ${String(result.sites).padStart(4)} sites  ` +
+          `median ${result.medianMs.toFixed(1).padStart(8)} ms  min ${result.minMs.toFixed(1).padStart(8)} ms` +
+          `  (budget ${result.budgetMs} ms)  ${fixture.description}`
+      );
+    }
+  }
+
+  if (opts.json) {
+    console.log(JSON.stringify(results, null, 2));
+  }
+
+  const over = results.filter((result) => result.medianMs > result.budgetMs);
+  if (opts.check && over.length > 0) {
+    console.error(`Over budget: ${over.map((result) => result.name).join(", ")}`);
+    process.exitCode = 1;
+  }
+});
+
+program.parse(process.argv);
@@ -1,30 +1,120 @@
 #!/usr/bin/env node
 /* eslint-disable no-console */
-import { Command } from "commander";
+import fs from "fs/promises";
+import { Command, Option } from "commander";
+import { describeCallArguments } from "../analysis/callArguments";
 import { analyzeBytecode } from "../analysis/delegateScanner";
+import { GRAPH_FORMATS, GraphFormat, serializeGraph } from "../analysis/graphFormats";
+import { buildListing, formatListing } from "../analysis/listing";
+import { DEFAULT_HARDFORK, HARDFORKS } from "../analysis/opcodes";
+import { generateSarif } from "../analysis/sarif";
+import { describeSelector } from "../analysis/signatures";
+import { describeSourceLocation, SourceMapping } from "../analysis/sourceMap";
+import { scanArtifactDirectory } from "../services/artifactScanner";
+import { DEFAULT_CONCURRENCY, DEFAULT_RETRIES, loadBatchTargets, scanBatch } from "../services/batchScanner";
 import { loadBytecodeFromAddress } from "../services/bytecodeLoader";
+import { RISK_ORDER } from "../analysis/riskRules";
+import { loadRiskRules } from "../services/riskRulesLoader";
+import { loadSignatureDatabase } from "../services/signatureLoader";
+import { loadSolcArtifact } from "../services/solcArtifactLoader";
+import { analyzeAddressRecursively, DEFAULT_MAX_DEPTH } from "../services/targetResolver";
+import { ArtifactScanReport, RiskLevel } from "../types/analysis";
 
 const program = new Command();
 
 program
   .name("delegate-scan")
   .description("Delegatecall Surface Scanner - analyze EVM delegatecall execution surfaces")
-  .version("1.0.0");
+  .version("1.0.0")
+  // Subcommands take their own --address/--bytecode; root options only go before them
+  .enablePositionalOptions();
 
 program
   .option("--address <address>", "Contract address to analyze")
   .option("--network <network>", "Network name (used for RPC env lookup)", "mainnet")
   .option("--rpc-url <url>", "Explicit RPC URL")
   .option("--bytecode <hex>", "Raw bytecode to analyze")
-  .option("--json", "Output JSON report", false);
+  .option("--solc-output <file>", "solc standard-JSON output or Hardhat build-info: analyze a contract and map sites to source")
+  .option("--contract <name>", "Contract to pick from --solc-output (Name or path:Name)")
+  .option("--sources-dir <dir>", "Directory source paths in --solc-output are relative to", ".")
+  .option("--initcode", "Treat --bytecode as creation code: analyze the runtime it deploys and its constructor", false)
+  .option("--resolve", "Read storage-driven and beacon targets on-chain and analyze the implementations they point to", false)
+  .option("--max-depth <n>", "Implementation hops to follow with --resolve", String(DEFAULT_MAX_DEPTH))
+  .option("--rules <file>", "Risk rules file (JSON or YAML) replacing or extending the built-in rules")
+  .option("--signatures <files...>", "ABIs (.json) or signature lists naming selectors, besides the bundled ones")
+  .option("--json", "Output JSON report (same as --format json)", false)
+  .addOption(
+    new Option("--format <format>", "Report format; sarif emits SARIF 2.1.0 for code-scanning tools")
+      .choices(["text", "json", "sarif"])
+      .default("text")
+  )
+  .addOption(
+    new Option("--graph-format <format>", "Output only the delegation graph (DOT, Mermaid, GraphML or Cytoscape.js)")
+      .choices(GRAPH_FORMATS)
+  )
+  .addOption(
+    new Option("--hardfork <fork>", "EVM hardfork whose opcode set is used for decoding")
+      .choices(HARDFORKS)
+      .default(DEFAULT_HARDFORK)
+  );
 
 program.action(async (opts) => {
   try {
     let bytecode: string;
     let address: string | undefined;
+    const riskRules = opts.rules ? await loadRiskRules(opts.rules as string) : undefined;
+    const signatures = opts.signatures ? await loadSignatureDatabase(opts.signatures as string[]) : undefined;
 
-    if (opts.bytecode) {
+    if (opts.resolve) {
+      if (!opts.address || opts.bytecode || opts.solcOutput || opts.initcode) {
+        console.error("--resolve requires --address: targets are read from the contract's storage.");
+        process.exitCode = 1;
+        return;
+      }
+      const maxDepth = Number(opts.maxDepth);
+      if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+        console.error("--max-depth must be a non-negative integer.");
+        process.exitCode = 1;
+        return;
+      }
+      const report = await analyzeAddressRecursively(opts.address as string, {
+        network: opts.network as string | undefined,
+        rpcUrl: opts.rpcUrl as string | undefined,
+        hardfork: opts.hardfork,
+        maxDepth,
+        riskRules,
+        signatures
+      });
+      printReport(report, opts.json ? "json" : opts.format, opts.graphFormat);
+      return;
+    }
+
+    let sourceMap: SourceMapping | undefined;
+    let initcodeSourceMap: SourceMapping | undefined;
+    if (opts.solcOutput) {
+      if (opts.bytecode || opts.address) {
+        console.error("--solc-output brings its own bytecode; drop --bytecode and --address.");
+        process.exitCode = 1;
+        return;
+      }
+      const artifact = await loadSolcArtifact(opts.solcOutput as string, {
+        contract: opts.contract as string | undefined,
+        sourcesDir: opts.sourcesDir as string
+      });
+      if (opts.initcode && !artifact.initcode) {
+        console.error(`${artifact.contract} has no creation bytecode in ${opts.solcOutput as string}.`);
+        process.exitCode = 1;
+        return;
+      }
+      bytecode = opts.initcode ? (artifact.initcode as string) : artifact.bytecode;
+      sourceMap = artifact.sourceMap;
+      initcodeSourceMap = artifact.initcodeSourceMap;
+    } else if (opts.bytecode) {
       bytecode = opts.bytecode;
+    } else if (opts.address && opts.initcode) {
+      console.error("--initcode requires --bytecode; deployed contracts only expose runtime code.");
+      process.exitCode = 1;
+      return;
     } else if (opts.address) {
       address = opts.address as string;
       bytecode = await loadBytecodeFromAddress(address, {
@@ -32,30 +122,175 @@ program.action(async (opts) => {
         rpcUrl: opts.rpcUrl as string | undefined
       });
     } else {
-      console.error("Either --address or --bytecode is required.");
+      console.error("Either --address, --bytecode or --solc-output is required.");
       process.exitCode = 1;
       return;
     }
 
     const report = analyzeBytecode(bytecode, {
       contractAddress: address,
-      network: opts.network
+      network: opts.network,
+      hardfork: opts.hardfork,
+      kind: opts.initcode ? "initcode" : "runtime",
+      riskRules,
+      sourceMap,
+      initcodeSourceMap,
+      signatures
     });
 
-    if (opts.json) {
-      console.log(JSON.stringify(report, null, 2));
-      return;
-    }
-
-    printHumanReadable(report);
+    printReport(report, opts.json ? "json" : opts.format, opts.graphFormat);
   } catch (err) {
     console.error("Analysis failed:", (err as Error).message);
     process.exitCode = 1;
   }
 });
 
+program
+  .command("disasm")
+  .description("List instructions by basic block, with edges, named slots and the stack at each DELEGATECALL")
+  .option("--address <address>", "Contract address to disassemble")
+  .option("--network <network>", "Network name (used for RPC env lookup)", "mainnet")
+  .option("--rpc-url <url>", "Explicit RPC URL")
+  .option("--bytecode <hex>", "Raw bytecode to disassemble")
+  .option("--signatures <files...>", "ABIs (.json) or signature lists naming selectors, besides the bundled ones")
+  .option("--json", "Output the listing as JSON", false)
+  .addOption(
+    new Option("--hardfork <fork>", "EVM hardfork whose opcode set is used for decoding")
+      .choices(HARDFORKS)
+      .default(DEFAULT_HARDFORK)
+  )
+  .action(async (opts) => {
+    try {
+      let bytecode: string;
+      if (opts.bytecode) {
+        bytecode = opts.bytecode;
+      } else if (opts.address) {
+        bytecode = await loadBytecodeFromAddress(opts.address as string, {
+          network: opts.network as string | undefined,
+          rpcUrl: opts.rpcUrl as string | undefined
+        });
+      } else {
+        console.error("Either --address or --bytecode is required.");
+        process.exitCode = 1;
+        return;
+      }
+
+      const signatures = opts.signatures ? await loadSignatureDatabase(opts.signatures as string[]) : undefined;
+      const listing = buildListing(bytecode, { hardfork: opts.hardfork, signatures });
+      console.log(opts.json ? JSON.stringify(listing, null, 2) : formatListing(listing));
+    } catch (err) {
+      console.error("Disassembly failed:", (err as Error).message);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("artifacts <dir>")
+  .description("Analyze every contract in a Foundry out/ or Hardhat artifacts/ directory")
+  .option("--rules <file>", "Risk rules file (JSON or YAML) replacing or extending the built-in rules")
+  .option("--signatures <files...>", "ABIs (.json) or signature lists naming selectors, besides the artifacts' ABIs")
+  .option("--json", "Output the aggregated JSON report instead of the summary table", false)
+  .option("--output <file>", "Also write the aggregated JSON report to a file")
+  .addOption(
+    // Unknown ranks above high, as in a report's overall risk
+    new Option("--fail-on <risk>", "Exit with status 2 when a contract's overall risk reaches this level")
+      .choices(RISK_ORDER)
+  )
+  .addOption(
+    new Option("--hardfork <fork>", "EVM hardfork whose opcode set is used for decoding")
+      .choices(HARDFORKS)
+      .default(DEFAULT_HARDFORK)
+  )
+  .action(async (dir: string, opts) => {
+    try {
+      const report = await scanArtifactDirectory(dir, {
+        hardfork: opts.hardfork,
+        riskRules: opts.rules ? await loadRiskRules(opts.rules as string) : undefined,
+        signatures: opts.signatures ? await loadSignatureDatabase(opts.signatures as string[]) : undefined
+      });
+      if (opts.output) {
+        await fs.writeFile(opts.output as string, JSON.stringify(report, null, 2));
+      }
+      if (opts.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printArtifactSummary(report);
+      }
+
+      const failOn = opts.failOn as RiskLevel | undefined;
+      if (failOn && report.overallRisk && RISK_ORDER.indexOf(report.overallRisk) >= RISK_ORDER.indexOf(failOn)) {
+        process.exitCode = 2;
+      }
+    } catch (err) {
+      console.error("Artifact scan failed:", (err as Error).message);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("batch")
+  .description("Scan many deployed contracts, streaming one JSON report per line and a final summary")
+  .requiredOption("--input <file>", "Targets: one address[,network] per line, or CSV with an address column")
+  .option("--network <network>", "Network for targets that name none (used for RPC env lookup)", "mainnet")
+  .option("--rpc-url <url>", "Explicit RPC URL for every target")
+  .option("--concurrency <n>", "Contracts fetched and analyzed at once", String(DEFAULT_CONCURRENCY))
+  .option("--retries <n>", "Retries of a failed RPC request, with exponential backoff", String(DEFAULT_RETRIES))
+  .option("--rules <file>", "Risk rules file (JSON or YAML) replacing or extending the built-in rules")
+  .option("--signatures <files...>", "ABIs (.json) or signature lists naming selectors, besides the bundled ones")
+  .addOption(
+    new Option("--hardfork <fork>", "EVM hardfork whose opcode set is used for decoding")
+      .choices(HARDFORKS)
+      .default(DEFAULT_HARDFORK)
+  )
+  .action(async (opts) => {
+    try {
+      const concurrency = Number(opts.concurrency);
+      const retries = Number(opts.retries);
+      if (!Number.isInteger(concurrency) || concurrency < 1 || !Number.isInteger(retries) || retries < 0) {
+        console.error("--concurrency must be a positive integer and --retries a non-negative one.");
+        process.exitCode = 1;
+        return;
+      }
+
+      const targets = await loadBatchTargets(opts.input as string, opts.network as string);
+      const summary = await scanBatch(targets, (result) => console.log(JSON.stringify(result)), {
+        rpcUrl: opts.rpcUrl as string | undefined,
+        hardfork: opts.hardfork,
+        riskRules: opts.rules ? await loadRiskRules(opts.rules as string) : undefined,
+        signatures: opts.signatures ? await loadSignatureDatabase(opts.signatures as string[]) : undefined,
+        concurrency,
+        retries
+      });
+      console.log(JSON.stringify({ summary }));
+    } catch (err) {
+      console.error("Batch scan failed:", (err as Error).message);
+      process.exitCode = 1;
+    }
+  });
+
 program.parse(process.argv);
 
+function printReport(
+  report: ReturnType<typeof analyzeBytecode>,
+  format: "text" | "json" | "sarif",
+  graphFormat?: GraphFormat
+): void {
+  if (graphFormat) {
+    console.log(serializeGraph(report.graph ?? { nodes: [], edges: [] }, graphFormat));
+    return;
+  }
+  if (format === "json") {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  if (format === "sarif") {
+    console.log(JSON.stringify(generateSarif(report, { toolVersion: program.version() }), null, 2));
+    return;
+  }
+
+  printHumanReadable(report);
+}
+
 function printHumanReadable(report: ReturnType<typeof analyzeBytecode>): void {
   console.log("Delegatecall Surface Summary");
   console.log("====================================\n");
@@ -74,6 +309,9 @@ function printHumanReadable(report: ReturnType<typeof analyzeBytecode>): void {
 
   report.sites.forEach((site, idx) => {
     console.log(`Site #${idx + 1} @ pc 0x${site.pc.toString(16)}`);
+    if (site.source) {
+      console.log(`  Source: ${describeSourceLocation(site.source)}`);
+    }
     console.log(`  Target type: ${site.classification.type}`);
     if (site.classification.addressLiteral) {
       console.log(`  Address: ${site.classification.addressLiteral}`);
@@ -81,13 +319,70 @@ function printHumanReadable(report: ReturnType<typeof analyzeBytecode>): void {
     if (site.classification.storageSlotLiteral) {
       console.log(`  Storage slot: ${site.classification.storageSlotLiteral}`);
     }
+    if (site.classification.storageSlots) {
+      console.log(`  Storage slots (one of): ${site.classification.storageSlots.join(", ")}`);
+    }
+    if (site.classification.externalLookup) {
+      const { selector, calleeSlot, calleeAddress, calleeType } = site.classification.externalLookup;
+      const callee = calleeSlot ? `contract in slot ${calleeSlot}` : calleeAddress ?? `${calleeType} contract`;
+      const called = selector ? describeSelector(selector, report.functionSignatures) : "(unknown selector)";
+      console.log(`  Returned by: STATICCALL ${called} to ${callee}`);
+    }
     if (site.pattern) {
       console.log(`  Pattern: ${site.pattern.name} - ${site.pattern.description}`);
     }
     console.log(`  Risk: ${site.risk}`);
+    for (const note of site.notes ?? []) {
+      console.log(`    - ${note}`);
+    }
+    if (site.entryPoints && site.entryPoints.length > 0) {
+      const entryPoints = site.entryPoints.map((entry) => describeSelector(entry, report.functionSignatures));
+      console.log(`  Reachable from: ${entryPoints.join(", ")}`);
+    }
+    if (site.callArguments) {
+      console.log(`  Call: ${describeCallArguments(site.callArguments, report.functionSignatures)}`);
+    }
+    if (site.successCheck) {
+      const at = site.successCheck.pc !== undefined ? ` (JUMPI @ pc 0x${site.successCheck.pc.toString(16)})` : "";
+      console.log(`  Success flag: ${site.successCheck.handling}${at}`);
+    }
+    for (const guard of site.guards ?? []) {
+      console.log(`  Guard: ${guard.details} (JUMPI @ pc 0x${guard.pc.toString(16)})`);
+    }
     console.log("");
   });
 
+  if (report.initcode) {
+    const { runtimeOffset, runtimeLength, sites } = report.initcode;
+    if (runtimeOffset !== undefined && runtimeLength !== undefined) {
+      console.log(`Runtime code: ${runtimeLength} bytes at offset 0x${runtimeOffset.toString(16)} of the initcode`);
+    } else {
+      console.log("Warning: could not locate the runtime code returned by the initcode.");
+    }
+    console.log(`Constructor delegatecall sites: ${sites.length}`);
+    for (const site of sites) {
+      const target = site.classification.addressLiteral ?? site.classification.details ?? site.classification.type;
+      const at = site.source ? ` at ${describeSourceLocation(site.source)}` : "";
+      console.log(`  - pc 0x${site.pc.toString(16)}: ${target} (risk: ${site.risk})${at}`);
+    }
+    console.log("");
+  }
+
+  if (report.resolvedTargets && report.resolvedTargets.length > 0) {
+    printResolution(report);
+  }
+
+  if (report.compilerMetadata) {
+    const { compiler, version } = report.compilerMetadata;
+    console.log(`Compiler: ${compiler}${version ? ` ${version}` : ""}`);
+  }
+
+  if (report.unresolvedJumps && report.unresolvedJumps.length > 0) {
+    const pcs = report.unresolvedJumps.map((pc) => `0x${pc.toString(16)}`).join(", ");
+    console.log(`Warning: ${report.unresolvedJumps.length} jump(s) with unresolved targets: ${pcs}`);
+    console.log("  Code reachable only through these jumps may be missing from the analysis.\n");
+  }
+
   if (report.proxiesDetected.length > 0) {
     console.log("Detected proxy patterns:");
     for (const p of report.proxiesDetected) {
@@ -96,3 +391,65 @@ function printHumanReadable(report: ReturnType<typeof analyzeBytecode>): void {
   }
 }
 
+function printResolution(report: ReturnType<typeof analyzeBytecode>): void {
+  // Implementation reports come in breadth-first order; list each one's targets under it
+  const contracts = [report, ...(report.implementations ?? []).map((implementation) => implementation.report)];
+
+  console.log("Resolved targets:");
+  for (const contract of contracts) {
+    for (const target of contract.resolvedTargets ?? []) {
+      const site = contract.sites.find((s) => s.id === target.siteId);
+      const from = `${contract.contractAddress ?? "contract"} pc 0x${site?.pc.toString(16) ?? "?"}`;
+      const via = target.callee ? ` via ${target.callee}` : "";
+      const to = target.error
+        ? `error: ${target.error}`
+        : target.address
+          ? `${target.address}${via}${target.cycle ? " (cycle)" : ""}`
+          : target.callee
+            ? `zero address${via}`
+            : "empty slot";
+      console.log(`  ${"  ".repeat(target.depth - 1)}- ${from} -> ${to}`);
+    }
+  }
+
+  for (const implementation of report.implementations ?? []) {
+    const { sites, overallRisk } = implementation.report;
+    console.log(
+      `Implementation ${implementation.address} (depth ${implementation.depth}): ` +
+        `${sites.length} delegatecall site(s)${overallRisk ? `, risk ${overallRisk}` : ""}`
+    );
+  }
+  console.log("");
+}
+
+function printArtifactSummary(report: ArtifactScanReport): void {
+  const rows = report.contracts.map(({ contract, report: contractReport }) => [
+    contract,
+    String(contractReport.delegatecallCount),
+    contractReport.overallRisk ?? "-",
+    contractReport.proxiesDetected.map((proxy) => proxy.name).join(", ") || "-"
+  ]);
+  const header = ["Contract", "Sites", "Risk", "Patterns"];
+  const widths = header.map((title, col) => Math.max(title.length, ...rows.map((row) => row[col].length)));
+  const line = (row: string[]) =>
+    row
+      .map((cell, col) => (col === 1 ? cell.padStart(widths[col]) : cell.padEnd(widths[col])))
+      .join("  ")
+      .trimEnd();
+
+  console.log(line(header));
+  console.log(line(widths.map((width) => "-".repeat(width))));
+  for (const row of rows) {
+    console.log(line(row));
+  }
+
+  const withSites = report.contracts.filter((entry) => entry.report.delegatecallCount > 0).length;
+  console.log(
+    `\n${report.contractCount} contract(s), ${withSites} with delegatecall sites, ` +
+      `${report.delegatecallCount} site(s) in total` +
+      (report.overallRisk ? `; overall risk ${report.overallRisk.toUpperCase()}` : "")
+  );
+  if (report.skipped) {
+    console.log(`Skipped ${report.skipped.length} contract(s) without deployed code (interfaces, abstract contracts)`);
+  }
+}
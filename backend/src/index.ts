@@ -1,3 +1,27 @@
 export * from "./analysis/delegateScanner";
+export { GRAPH_FORMATS, GraphFormat, serializeGraph } from "./analysis/graphFormats";
+export { buildListing, formatListing, Listing } from "./analysis/listing";
+export {
+  listProxyPatterns,
+  PatternContext,
+  ProxyPatternDetector,
+  registerProxyPattern,
+  unregisterProxyPattern
+} from "./analysis/proxyPatterns";
+export { DEFAULT_RISK_RULES, evaluateRiskRules, parseRiskRules } from "./analysis/riskRules";
+export { generateSarif, SarifLog } from "./analysis/sarif";
+export { abiSignatures, buildSignatureDatabase, nameSelectors, SignatureDatabase } from "./analysis/signatures";
+export {
+  describeSourceLocation,
+  mapSourceLocations,
+  parseSolcArtifact,
+  SolcArtifact,
+  SourceMapping
+} from "./analysis/sourceMap";
+export { ArtifactScanOptions, scanArtifactDirectory } from "./services/artifactScanner";
+export { BatchOptions, BatchTarget, loadBatchTargets, scanBatch } from "./services/batchScanner";
+export { loadRiskRules } from "./services/riskRulesLoader";
+export { loadSignatureDatabase, loadSignatures } from "./services/signatureLoader";
+export { loadSolcArtifact } from "./services/solcArtifactLoader";
 export * from "./types/analysis";
 
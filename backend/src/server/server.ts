@@ -1,19 +1,83 @@
 import express from "express";
 import { z } from "zod";
 import { analyzeBytecode } from "../analysis/delegateScanner";
+import { GRAPH_FORMATS, GRAPH_MEDIA_TYPES, serializeGraph } from "../analysis/graphFormats";
+import { HARDFORKS } from "../analysis/opcodes";
+import { resolveRiskRules, RiskRulesSchema } from "../analysis/riskRules";
+import { generateSarif } from "../analysis/sarif";
+import { SignatureDatabase } from "../analysis/signatures";
+import { parseSolcArtifact, SolcArtifact } from "../analysis/sourceMap";
+import { DelegatecallSurfaceReport, Hardfork, RiskRule } from "../types/analysis";
 import { loadBytecodeFromAddress } from "../services/bytecodeLoader";
+import { loadRiskRules } from "../services/riskRulesLoader";
+import { loadSignatureDatabase } from "../services/signatureLoader";
+import { analyzeAddressRecursively } from "../services/targetResolver";
 
 const app = express();
-app.use(express.json({ limit: "1mb" }));
+// solc output with its ASTs runs to megabytes
+app.use(express.json({ limit: "10mb" }));
+
+const HardforkSchema = z.enum(HARDFORKS as [Hardfork, ...Hardfork[]]);
+
+// Whole bytes of hex, "0x" optional: anything else cannot be decoded and is the client's error
+const HexBytecodeSchema = z.string().regex(/^(0x)?([0-9a-fA-F]{2})*$/, "Expected hex bytecode of whole bytes");
+
+const SARIF_MEDIA_TYPE = "application/sarif+json";
+
+// What a file named by an environment variable held, or why it could not be read
+interface LoadedSetting<T> {
+  value?: T;
+  error?: string;
+}
+
+// Never rejects, so a broken file fails the requests that need it instead of crashing the process
+function loadSetting<T>(name: string, load: (value: string) => Promise<T>): Promise<LoadedSetting<T>> {
+  const value = process.env[name];
+  if (!value) return Promise.resolve({});
+  return load(value).then(
+    (loaded) => ({ value: loaded }),
+    (err: Error) => ({ error: `${name}: ${err.message}` })
+  );
+}
+
+// Rules from RISK_RULES_FILE apply to every request that brings none of its own
+const defaultRiskRules = loadSetting<RiskRule[]>("RISK_RULES_FILE", loadRiskRules);
+
+// SIGNATURES_FILE (comma-separated) adds ABIs or signature lists to the bundled selector names
+const signaturesLoaded = loadSetting<SignatureDatabase>("SIGNATURES_FILE", (files) =>
+  loadSignatureDatabase(files.split(",").map((file) => file.trim()))
+);
+
+// ?format=dot|mermaid|graphml|cytoscape answers with the delegation graph alone
+const AnalyzeQuerySchema = z.object({
+  format: z.enum(GRAPH_FORMATS).optional()
+});
 
 const AnalyzeBodySchema = z.union([
   z.object({
     address: z.string(),
     network: z.string().optional(),
-    rpcUrl: z.string().optional()
+    rpcUrl: z.string().optional(),
+    hardfork: HardforkSchema.optional(),
+    // Follow storage-driven and beacon targets on-chain to the implementations they hold
+    resolve: z.boolean().optional(),
+    maxDepth: z.number().int().min(0).max(10).optional(),
+    riskRules: RiskRulesSchema.optional()
   }),
   z.object({
-    bytecode: z.string()
+    bytecode: HexBytecodeSchema,
+    hardfork: HardforkSchema.optional(),
+    // Creation bytecode from build artifacts can be analyzed as "initcode", or detected with "auto"
+    kind: z.enum(["runtime", "initcode", "auto"]).optional(),
+    riskRules: RiskRulesSchema.optional()
+  }),
+  z.object({
+    // solc standard-JSON output or a Hardhat build-info file; sites are mapped to source lines
+    solcOutput: z.record(z.unknown()),
+    contract: z.string().optional(),
+    hardfork: HardforkSchema.optional(),
+    kind: z.enum(["runtime", "initcode"]).optional(),
+    riskRules: RiskRulesSchema.optional()
   })
 ]);
 
@@ -27,16 +91,79 @@ app.post("/analyze", async (req, res) => {
     res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
     return;
   }
+  const query = AnalyzeQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+    return;
+  }
+  const graphFormat = query.data.format;
+
+  const defaults = parsed.data.riskRules ? {} : await defaultRiskRules;
+  const { value: signatures, error: signaturesError } = await signaturesLoaded;
+  const configError = defaults.error ?? signaturesError;
+  if (configError) {
+    res.status(500).json({ error: "Server configuration could not be loaded", details: configError });
+    return;
+  }
 
   try {
-    if ("bytecode" in parsed.data) {
-      const report = analyzeBytecode(parsed.data.bytecode);
+    const riskRules = parsed.data.riskRules ? resolveRiskRules(parsed.data.riskRules) : defaults.value;
+    // Code-scanning integrations ask for SARIF; everything else gets the JSON report, unless
+    // only the graph was asked for
+    const send = (report: DelegatecallSurfaceReport) => {
+      if (graphFormat) {
+        const graph = report.graph ?? { nodes: [], edges: [] };
+        res.type(GRAPH_MEDIA_TYPES[graphFormat]).send(serializeGraph(graph, graphFormat));
+        return;
+      }
+      if (req.accepts(["application/json", SARIF_MEDIA_TYPE]) === SARIF_MEDIA_TYPE) {
+        res.type(SARIF_MEDIA_TYPE).send(JSON.stringify(generateSarif(report)));
+        return;
+      }
       res.json(report);
+    };
+
+    if ("solcOutput" in parsed.data) {
+      const { solcOutput, contract, hardfork, kind } = parsed.data;
+      let artifact: SolcArtifact;
+      try {
+        artifact = parseSolcArtifact(solcOutput, contract);
+      } catch (err) {
+        res.status(400).json({ error: "Invalid solc output", details: (err as Error).message });
+        return;
+      }
+      if (kind === "initcode" && !artifact.initcode) {
+        res.status(400).json({ error: `No creation bytecode for ${artifact.contract}` });
+        return;
+      }
+      const report = analyzeBytecode(kind === "initcode" ? (artifact.initcode as string) : artifact.bytecode, {
+        hardfork,
+        kind: kind ?? "runtime",
+        riskRules,
+        sourceMap: artifact.sourceMap,
+        initcodeSourceMap: artifact.initcodeSourceMap,
+        signatures
+      });
+      send(report);
+    } else if ("bytecode" in parsed.data) {
+      const { bytecode, hardfork, kind } = parsed.data;
+      const report = analyzeBytecode(bytecode, { hardfork, kind, riskRules, signatures });
+      send(report);
     } else {
-      const { address, network, rpcUrl } = parsed.data;
+      const { address, network, rpcUrl, hardfork, resolve, maxDepth } = parsed.data;
+      if (resolve) {
+        send(await analyzeAddressRecursively(address, { network, rpcUrl, hardfork, maxDepth, riskRules, signatures }));
+        return;
+      }
       const bytecode = await loadBytecodeFromAddress(address, { network, rpcUrl });
-      const report = analyzeBytecode(bytecode, { contractAddress: address, network });
-      res.json(report);
+      const report = analyzeBytecode(bytecode, {
+        contractAddress: address,
+        network,
+        hardfork,
+        riskRules,
+        signatures
+      });
+      send(report);
     }
   } catch (err) {
     // eslint-disable-next-line no-console
@@ -48,9 +175,18 @@ app.post("/analyze", async (req, res) => {
 const port = process.env.PORT || 4000;
 
 if (require.main === module) {
-  app.listen(port, () => {
-    // eslint-disable-next-line no-console
-    console.log(`Delegatecall Surface Scanner API listening on port ${port}`);
+  // A standalone server refuses to start on a broken file rather than fail every request
+  void Promise.all([defaultRiskRules, signaturesLoaded]).then((settings) => {
+    const errors = settings.map((setting) => setting.error).filter((error): error is string => !!error);
+    if (errors.length > 0) {
+      // eslint-disable-next-line no-console
+      errors.forEach((error) => console.error(error));
+      process.exit(1);
+    }
+    app.listen(port, () => {
+      // eslint-disable-next-line no-console
+      console.log(`Delegatecall Surface Scanner API listening on port ${port}`);
+    });
   });
 }
 
@@ -0,0 +1,148 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { analyzeBytecode } from "../analysis/delegateScanner";
+import { abiSignatures, buildSignatureDatabase, selectorOf, SignatureDatabase } from "../analysis/signatures";
+import { highestRisk } from "../analysis/riskRules";
+import { zeroLinkPlaceholders } from "../analysis/sourceMap";
+import {
+  ArtifactReport,
+  ArtifactScanReport,
+  Hardfork,
+  ProxyPatternSummary,
+  RiskLevel,
+  RiskRule
+} from "../types/analysis";
+
+export interface ArtifactScanOptions {
+  hardfork?: Hardfork;
+  riskRules?: RiskRule[]; // Applied to every contract
+  signatures?: SignatureDatabase; // Extended with the artifacts' own ABIs
+}
+
+// The fields shared by Foundry (bytecode objects), Hardhat and Truffle (hex strings) artifacts
+const BuildArtifactSchema = z.object({
+  contractName: z.string().optional(),
+  sourceName: z.string().optional(), // Hardhat
+  sourcePath: z.string().optional(), // Truffle
+  deployedBytecode: z.union([z.string(), z.object({ object: z.string() })]),
+  abi: z.array(z.unknown()).optional(),
+  // Foundry embeds the compiler metadata, whose compilation target names the contract
+  metadata: z
+    .union([
+      z.string(),
+      z.object({ settings: z.object({ compilationTarget: z.record(z.string()).optional() }).optional() })
+    ])
+    .optional(),
+  ast: z.object({ absolutePath: z.string().optional() }).optional()
+});
+
+type BuildArtifact = z.infer<typeof BuildArtifactSchema>;
+
+/**
+ * Analyzes every contract in a Foundry `out/` or Hardhat `artifacts/` tree
+ * (Truffle's `build/contracts` works too) from its deployed bytecode, with
+ * library placeholders zeroed. Build-info and Hardhat `.dbg.json` files, and
+ * JSON that is no artifact, are passed over; contracts without deployed code
+ * are listed as skipped. The artifacts' ABIs name the selectors in the reports.
+ */
+export async function scanArtifactDirectory(dir: string, opts: ArtifactScanOptions = {}): Promise<ArtifactScanReport> {
+  const files = await findArtifactFiles(dir);
+  const artifacts: Array<{ contract: string; file: string; artifact: BuildArtifact }> = [];
+  for (const file of files) {
+    let content: unknown;
+    try {
+      content = JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err) {
+      throw new Error(`Invalid JSON in ${file}: ${(err as Error).message}`);
+    }
+    const parsed = BuildArtifactSchema.safeParse(content);
+    if (parsed.success) {
+      artifacts.push({ contract: contractName(parsed.data, file), file, artifact: parsed.data });
+    }
+  }
+  if (artifacts.length === 0) {
+    throw new Error(`No build artifacts found in ${dir}`);
+  }
+
+  const signatures = new Map(opts.signatures ?? buildSignatureDatabase());
+  for (const { artifact } of artifacts) {
+    try {
+      for (const signature of abiSignatures(artifact.abi ?? [])) {
+        signatures.set(selectorOf(signature), signature);
+      }
+    } catch {
+      // A malformed ABI only costs names
+    }
+  }
+
+  const contracts: ArtifactReport[] = [];
+  const skipped: string[] = [];
+  for (const { contract, file, artifact } of artifacts) {
+    const deployed =
+      typeof artifact.deployedBytecode === "string" ? artifact.deployedBytecode : artifact.deployedBytecode.object;
+    if (deployed.replace(/^0x/, "").length === 0) {
+      skipped.push(contract);
+      continue;
+    }
+    const report = analyzeBytecode(zeroLinkPlaceholders(deployed), {
+      hardfork: opts.hardfork,
+      riskRules: opts.riskRules,
+      signatures
+    });
+    contracts.push({ contract, artifact: path.relative(dir, file), report });
+  }
+
+  const risks = contracts.map((entry) => entry.report.overallRisk).filter((risk): risk is RiskLevel => !!risk);
+  return {
+    directory: dir,
+    contractCount: contracts.length,
+    delegatecallCount: contracts.reduce((sum, entry) => sum + entry.report.delegatecallCount, 0),
+    overallRisk: highestRisk(risks),
+    proxiesDetected: mergeProxySummaries(contracts),
+    contracts,
+    skipped: skipped.length > 0 ? skipped : undefined
+  };
+}
+
+async function findArtifactFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (current: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        // Whole compiler inputs and outputs, not per-contract artifacts
+        if (entry.name !== "build-info") await walk(full);
+      } else if (entry.name.endsWith(".json") && !entry.name.endsWith(".dbg.json")) {
+        files.push(full);
+      }
+    }
+  };
+  await walk(dir);
+  return files.sort();
+}
+
+// "src/Proxy.sol:Proxy"; Foundry names files after the contract, so the path is the fallback
+function contractName(artifact: BuildArtifact, file: string): string {
+  const metadata = typeof artifact.metadata === "object" ? artifact.metadata : undefined;
+  const target = Object.entries(metadata?.settings?.compilationTarget ?? {})[0];
+  const name = artifact.contractName ?? target?.[1] ?? path.basename(file, ".json").split(".")[0];
+  const source =
+    artifact.sourceName ??
+    target?.[0] ??
+    artifact.ast?.absolutePath ??
+    artifact.sourcePath ??
+    path.basename(path.dirname(file));
+  return `${source}:${name}`;
+}
+
+function mergeProxySummaries(contracts: ArtifactReport[]): ProxyPatternSummary[] {
+  const counts = new Map<string, number>();
+  for (const { report } of contracts) {
+    for (const { name, count } of report.proxiesDetected) {
+      counts.set(name, (counts.get(name) ?? 0) + count);
+    }
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count }));
+}
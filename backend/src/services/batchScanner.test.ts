@@ -0,0 +1,103 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { getAddress } from "ethers";
+import { assemble } from "../testing/assembler";
+import { RpcNode, startNode } from "../testing/rpcNode";
+import { BatchResult, BatchSummary } from "../types/analysis";
+import { BatchTarget, loadBatchTargets, scanBatch } from "./batchScanner";
+
+const CLONE_A = getAddress("0x1000000000000000000000000000000000000001");
+const CLONE_B = getAddress("0x2000000000000000000000000000000000000002");
+const OTHER = getAddress("0x3000000000000000000000000000000000000003");
+
+// DELEGATECALL to the address in the first argument
+const FORWARDER = assemble(["PUSH0", "PUSH0", "PUSH0", "PUSH0", { push: "0x04" }, "CALLDATALOAD", "GAS", "DELEGATECALL", "STOP"]);
+
+async function targetsFrom(content: string): Promise<BatchTarget[]> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "batch-"));
+  try {
+    const file = path.join(dir, "targets.csv");
+    await fs.writeFile(file, content);
+    return await loadBatchTargets(file, "mainnet");
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe("loadBatchTargets", () => {
+  it("reads addresses with optional networks, skipping comments and repeats", async () => {
+    const targets = await targetsFrom(
+      [`# proxies`, CLONE_A, `${CLONE_B} sepolia`, CLONE_A.toLowerCase(), `${CLONE_A},sepolia`].join("\n")
+    );
+    expect(targets).toEqual([
+      { address: CLONE_A, network: "mainnet", line: 2 },
+      { address: CLONE_B, network: "sepolia", line: 3 },
+      { address: CLONE_A, network: "sepolia", line: 5 }
+    ]);
+  });
+
+  it("picks the columns a CSV header names", async () => {
+    const targets = await targetsFrom(["name,chain,address", `proxy,base,"${OTHER}"`].join("\n"));
+    expect(targets).toEqual([{ address: OTHER, network: "base", line: 2 }]);
+  });
+
+  it("rejects a line without an address", async () => {
+    await expect(targetsFrom("0x1234")).rejects.toThrow(/targets\.csv:1: not an address: 0x1234/);
+  });
+});
+
+describe("scanBatch", () => {
+  let node: RpcNode;
+
+  beforeEach(async () => {
+    node = await startNode();
+  });
+
+  afterEach(() => {
+    node.close();
+  });
+
+  const scan = async (addresses: string[], retries: number): Promise<{ results: BatchResult[]; summary: BatchSummary }> => {
+    const targets = addresses.map((address, idx) => ({ address, network: "mainnet", line: idx + 1 }));
+    const results: BatchResult[] = [];
+    const summary = await scanBatch(targets, (result) => results.push(result), {
+      rpcUrl: node.url,
+      concurrency: 1,
+      retries
+    });
+    return { results, summary };
+  };
+
+  it("analyzes identical bytecode once and marks the later copies", async () => {
+    node.chain.code[CLONE_A] = FORWARDER;
+    node.chain.code[CLONE_B] = FORWARDER;
+
+    const { results, summary } = await scan([CLONE_A, CLONE_B], 0);
+
+    expect(results.map((result) => result.duplicateOf)).toEqual([undefined, { address: CLONE_A, network: "mainnet" }]);
+    expect(results[1]?.report?.contractAddress).toBe(CLONE_B);
+    expect(summary).toMatchObject({ targets: 2, scanned: 2, uniqueBytecodes: 1, duplicates: 1, failed: 0 });
+  });
+
+  it("retries a failed bytecode fetch", async () => {
+    node.chain.code[OTHER] = FORWARDER;
+    node.chain.flaky.eth_getCode = 1;
+
+    const { results, summary } = await scan([OTHER], 1);
+
+    expect(results[0]?.error).toBeUndefined();
+    expect(node.requests.filter((method) => method === "eth_getCode")).toHaveLength(2);
+    expect(summary).toMatchObject({ scanned: 1, failed: 0 });
+  });
+
+  it("reports a target whose fetch keeps failing", async () => {
+    node.chain.code[OTHER] = FORWARDER;
+    node.chain.failing.add("eth_getCode");
+
+    const { results, summary } = await scan([OTHER], 0);
+
+    expect(results[0]?.error).toContain("eth_getCode unavailable");
+    expect(summary).toMatchObject({ scanned: 0, failed: 1 });
+  });
+});
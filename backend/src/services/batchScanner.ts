@@ -0,0 +1,179 @@
+import fs from "fs/promises";
+import { ethers } from "ethers";
+import { analyzeBytecode, hashBytecode } from "../analysis/delegateScanner";
+import { generateGraph } from "../analysis/graphGenerator";
+import { SignatureDatabase } from "../analysis/signatures";
+import { BatchResult, BatchSummary, DelegatecallSurfaceReport, Hardfork, RiskRule } from "../types/analysis";
+import { createProvider, loadBytecodeFromAddress } from "./bytecodeLoader";
+
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_RETRIES = 3;
+
+export interface BatchTarget {
+  address: string;
+  network: string;
+  line: number; // 1-based, for reporting
+}
+
+export interface BatchOptions {
+  rpcUrl?: string; // Used for every target instead of the network's RPC_URL_* variable
+  hardfork?: Hardfork;
+  riskRules?: RiskRule[];
+  signatures?: SignatureDatabase;
+  concurrency?: number; // Targets fetched at once (DEFAULT_CONCURRENCY)
+  retries?: number; // Per RPC request (DEFAULT_RETRIES)
+}
+
+/**
+ * Reads the targets of a batch scan: one per line, as "address" or
+ * "address,network" (whitespace also separates). A CSV header naming an
+ * `address` column (and optionally `network` or `chain`) picks the columns
+ * instead, so exported spreadsheets work as they are. `#` starts a comment;
+ * repeated address/network pairs are scanned once.
+ */
+export async function loadBatchTargets(file: string, defaultNetwork: string): Promise<BatchTarget[]> {
+  const lines = (await fs.readFile(file, "utf8")).split(/\r?\n/);
+  const targets: BatchTarget[] = [];
+  const seen = new Set<string>();
+  let columns: { address: number; network: number } | undefined;
+
+  lines.forEach((raw, idx) => {
+    const line = raw.replace(/#.*/, "").trim();
+    if (!line) return;
+    const cells = (line.includes(",") ? line.split(",") : line.split(/\s+/)).map((cell) =>
+      cell.trim().replace(/^"(.*)"$/, "$1")
+    );
+
+    if (!columns && targets.length === 0) {
+      const header = cells.map((cell) => cell.toLowerCase());
+      if (header.includes("address")) {
+        const network = header.findIndex((cell) => cell === "network" || cell === "chain");
+        columns = { address: header.indexOf("address"), network };
+        return;
+      }
+    }
+
+    const address = cells[columns?.address ?? 0];
+    const network = cells[columns?.network ?? 1] || defaultNetwork;
+    if (!address || !ethers.isAddress(address)) {
+      throw new Error(`${file}:${idx + 1}: not an address: ${address ?? line}`);
+    }
+    const key = `${network}:${address.toLowerCase()}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      targets.push({ address, network, line: idx + 1 });
+    }
+  });
+  return targets;
+}
+
+/**
+ * Scans many deployed contracts, `concurrency` at a time, passing each result
+ * to `onResult` as soon as it is ready (so not in input order). Each network
+ * gets one provider, and RPC requests are retried with backoff. Contracts
+ * whose bytecode was already analyzed (clones, factory deployments) reuse that
+ * analysis under their own address and are marked `duplicateOf`.
+ */
+export async function scanBatch(
+  targets: BatchTarget[],
+  onResult: (result: BatchResult) => void,
+  opts: BatchOptions = {}
+): Promise<BatchSummary> {
+  const started = Date.now();
+  const summary: BatchSummary = {
+    targets: targets.length,
+    scanned: 0,
+    uniqueBytecodes: 0,
+    duplicates: 0,
+    failed: 0,
+    withDelegatecall: 0,
+    risks: {},
+    durationMs: 0
+  };
+
+  const providers = new Map<string, ethers.JsonRpcProvider>();
+  const providerFor = (network: string): ethers.JsonRpcProvider => {
+    let provider = providers.get(network);
+    if (!provider) {
+      provider = createProvider({ network, rpcUrl: opts.rpcUrl });
+      providers.set(network, provider);
+    }
+    return provider;
+  };
+  const analyzed = new Map<string, { target: BatchTarget; report: DelegatecallSurfaceReport }>();
+
+  const scan = async (target: BatchTarget): Promise<BatchResult> => {
+    const { address, network, line } = target;
+    const bytecode = await loadBytecodeFromAddress(address, {
+      provider: providerFor(network),
+      retries: opts.retries ?? DEFAULT_RETRIES
+    });
+
+    // Analysis is synchronous, so no other worker runs between this lookup and the insert below
+    const hash = hashBytecode(bytecode);
+    const first = analyzed.get(hash);
+    if (first) {
+      summary.duplicates += 1;
+      const report = {
+        ...first.report,
+        contractAddress: address,
+        network,
+        graph: generateGraph(address, first.report.sites)
+      };
+      return {
+        line,
+        address,
+        network,
+        report,
+        duplicateOf: { address: first.target.address, network: first.target.network }
+      };
+    }
+
+    const report = analyzeBytecode(bytecode, {
+      contractAddress: address,
+      network,
+      hardfork: opts.hardfork,
+      riskRules: opts.riskRules,
+      signatures: opts.signatures
+    });
+    analyzed.set(hash, { target, report });
+    summary.uniqueBytecodes += 1;
+    return { line, address, network, report };
+  };
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < targets.length) {
+      const target = targets[next];
+      next += 1;
+      let result: BatchResult;
+      try {
+        result = await scan(target);
+      } catch (err) {
+        result = { line: target.line, address: target.address, network: target.network, error: (err as Error).message };
+      }
+
+      if (result.report) {
+        summary.scanned += 1;
+        if (result.report.delegatecallCount > 0) summary.withDelegatecall += 1;
+        const risk = result.report.overallRisk;
+        if (risk) summary.risks[risk] = (summary.risks[risk] ?? 0) + 1;
+      } else {
+        summary.failed += 1;
+      }
+      onResult(result);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(opts.concurrency ?? DEFAULT_CONCURRENCY, targets.length));
+  try {
+    await Promise.all(Array.from({ length: workers }, worker));
+  } finally {
+    for (const provider of providers.values()) {
+      provider.destroy();
+    }
+  }
+
+  summary.durationMs = Date.now() - started;
+  return summary;
+}
@@ -1,15 +1,18 @@
 import { ethers } from "ethers";
 
-interface LoadOptions {
+export interface LoadOptions {
   network?: string;
   rpcUrl?: string;
+  provider?: ethers.JsonRpcProvider; // Reused across calls instead of connecting again
+  retries?: number; // Failed RPC requests are retried this many times, backing off exponentially
 }
 
-export async function loadBytecodeFromAddress(address: string, opts: LoadOptions = {}): Promise<string> {
-  const { network, rpcUrl } = opts;
+// Delay before the first retry; doubled for each later one
+const RETRY_DELAY_MS = 500;
 
-  const provider = createProvider({ network, rpcUrl });
-  const code = await provider.getCode(address);
+export async function loadBytecodeFromAddress(address: string, opts: LoadOptions = {}): Promise<string> {
+  const provider = opts.provider ?? createProvider(opts);
+  const code = await withRetries(() => provider.getCode(address), opts.retries);
 
   if (!code || code === "0x") {
     throw new Error(`No bytecode found at address ${address}`);
@@ -18,7 +21,57 @@ export async function loadBytecodeFromAddress(address: string, opts: LoadOptions
   return code;
 }
 
-function createProvider(opts: { network?: string; rpcUrl?: string }): ethers.JsonRpcProvider {
+/**
+ * Reads a storage slot (`eth_getStorageAt`) and decodes it as an address held
+ * in its low 20 bytes. Returns null for an empty slot.
+ */
+export async function loadAddressFromStorage(
+  address: string,
+  slot: string,
+  opts: LoadOptions = {}
+): Promise<string | null> {
+  const provider = opts.provider ?? createProvider(opts);
+  return decodeAddressWord(BigInt(await withRetries(() => provider.getStorage(address, slot), opts.retries)));
+}
+
+/**
+ * Calls a function without arguments (`eth_call`), e.g. a beacon's
+ * implementation(), and decodes the return data word at `returnOffset` as an
+ * address. Returns null when the word is zero.
+ */
+export async function loadAddressFromCall(
+  address: string,
+  selector: string,
+  returnOffset: number,
+  opts: LoadOptions = {}
+): Promise<string | null> {
+  const provider = opts.provider ?? createProvider(opts);
+  const data = await withRetries(() => provider.call({ to: address, data: selector }), opts.retries);
+  return decodeAddressWord(BigInt(ethers.dataSlice(data, returnOffset, returnOffset + 32)));
+}
+
+async function withRetries<T>(request: () => Promise<T>, retries = 0): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await request();
+    } catch (err) {
+      if (attempt >= retries) throw err;
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt));
+    }
+  }
+}
+
+function decodeAddressWord(word: bigint): string | null {
+  const value = word & ((1n << 160n) - 1n);
+
+  if (value === 0n) {
+    return null;
+  }
+
+  return ethers.getAddress(`0x${value.toString(16).padStart(40, "0")}`);
+}
+
+export function createProvider(opts: { network?: string; rpcUrl?: string }): ethers.JsonRpcProvider {
   if (opts.rpcUrl) {
     return new ethers.JsonRpcProvider(opts.rpcUrl);
   }
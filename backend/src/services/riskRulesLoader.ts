@@ -0,0 +1,26 @@
+import fs from "fs/promises";
+import path from "path";
+import yaml from "js-yaml";
+import { ZodError } from "zod";
+import { parseRiskRules } from "../analysis/riskRules";
+import { RiskRule } from "../types/analysis";
+
+/**
+ * Reads a risk rules file: YAML for `.yaml`/`.yml`, JSON otherwise. Its content
+ * is a list of rules replacing the built-in ones, or `{ extends: "default", rules }`.
+ */
+export async function loadRiskRules(file: string): Promise<RiskRule[]> {
+  const text = await fs.readFile(file, "utf8");
+  const ext = path.extname(file).toLowerCase();
+  const content: unknown = ext === ".yaml" || ext === ".yml" ? yaml.load(text) : JSON.parse(text);
+
+  try {
+    return parseRiskRules(content);
+  } catch (err) {
+    if (err instanceof ZodError) {
+      const issues = err.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+      throw new Error(`Invalid risk rules in ${file}: ${issues.join("; ")}`);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,83 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  abiSignatures,
+  buildSignatureDatabase,
+  normalizeSignature,
+  selectorOf,
+  SignatureDatabase
+} from "../analysis/signatures";
+
+// "0x3659cfe6 upgradeTo(address)", as in 4byte exports; the separator may also be "," or ":"
+const SELECTOR_PREFIX = /^(0x[0-9a-fA-F]{8})[\s,:]+(.+)$/;
+
+/**
+ * Reads function signatures to name selectors with, besides the bundled ones.
+ * `.json` files are ABIs: a bare ABI, an artifact with an `abi` field
+ * (Hardhat, Foundry, Truffle), or solc standard-JSON output or build-info,
+ * whose contracts' ABIs are all taken. Other files hold one signature per line
+ * ("upgradeTo(address)" or a human-readable ABI line such as "function
+ * upgradeTo(address impl)"), optionally after its selector, which must match;
+ * `#` starts a comment.
+ */
+export async function loadSignatures(file: string): Promise<string[]> {
+  const text = await fs.readFile(file, "utf8");
+  if (path.extname(file).toLowerCase() === ".json") {
+    return signaturesFromAbis(findAbis(JSON.parse(text)), file);
+  }
+
+  const signatures: string[] = [];
+  text.split(/\r?\n/).forEach((raw, idx) => {
+    const line = raw.replace(/#.*/, "").trim();
+    if (!line) return;
+
+    const prefixed = SELECTOR_PREFIX.exec(line);
+    let signature: string;
+    try {
+      signature = normalizeSignature(prefixed ? prefixed[2] : line);
+    } catch {
+      throw new Error(`${file}:${idx + 1}: not a function signature: ${line}`);
+    }
+    if (prefixed && selectorOf(signature) !== prefixed[1].toLowerCase()) {
+      throw new Error(`${file}:${idx + 1}: ${prefixed[1]} is not the selector of ${signature}`);
+    }
+    signatures.push(signature);
+  });
+  return signatures;
+}
+
+// The bundled signatures extended with those in `files`; later files win where selectors collide
+export async function loadSignatureDatabase(files: string[]): Promise<SignatureDatabase> {
+  const extra = await Promise.all(files.map((file) => loadSignatures(file)));
+  return buildSignatureDatabase(extra.flat());
+}
+
+function findAbis(content: unknown): unknown[][] {
+  if (Array.isArray(content)) return [content];
+  if (!content || typeof content !== "object") return [];
+
+  const record = content as Record<string, unknown>;
+  if (Array.isArray(record.abi)) return [record.abi];
+  // Build-info files wrap the standard-JSON output with its input
+  const output = (record.output ?? record) as Record<string, unknown>;
+  if (!output.contracts || typeof output.contracts !== "object") return [];
+
+  const abis: unknown[][] = [];
+  for (const contracts of Object.values(output.contracts as Record<string, Record<string, { abi?: unknown }>>)) {
+    for (const contract of Object.values(contracts ?? {})) {
+      if (Array.isArray(contract?.abi)) abis.push(contract.abi);
+    }
+  }
+  return abis;
+}
+
+function signaturesFromAbis(abis: unknown[][], file: string): string[] {
+  if (abis.length === 0) {
+    throw new Error(`No ABI found in ${file}`);
+  }
+  try {
+    return abis.flatMap((abi) => abiSignatures(abi));
+  } catch (err) {
+    throw new Error(`${(err as Error).message} in ${file}`);
+  }
+}
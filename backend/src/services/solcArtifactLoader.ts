@@ -0,0 +1,42 @@
+import fs from "fs/promises";
+import path from "path";
+import { ZodError } from "zod";
+import { parseSolcArtifact, SolcArtifact } from "../analysis/sourceMap";
+
+export interface SolcArtifactOptions {
+  contract?: string; // Name or "path:Name"; needed when the output holds several contracts
+  sourcesDir?: string; // Where source paths are resolved when the file does not embed them
+}
+
+/**
+ * Reads solc standard-JSON output (or a Hardhat build-info file) and picks a
+ * contract from it. Standard-JSON output carries no source text, so sources
+ * missing from the file are read from `sourcesDir` (the current directory by
+ * default); a source that cannot be read is located by byte offset only.
+ */
+export async function loadSolcArtifact(file: string, opts: SolcArtifactOptions = {}): Promise<SolcArtifact> {
+  const content: unknown = JSON.parse(await fs.readFile(file, "utf8"));
+
+  let artifact: SolcArtifact;
+  try {
+    artifact = parseSolcArtifact(content, opts.contract);
+  } catch (err) {
+    if (err instanceof ZodError) {
+      const issues = err.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+      throw new Error(`Invalid solc output in ${file}: ${issues.join("; ")}`);
+    }
+    throw err;
+  }
+
+  // Runtime and creation maps share their source units
+  const sources = artifact.sourceMap?.sources ?? artifact.initcodeSourceMap?.sources ?? {};
+  for (const unit of Object.values(sources)) {
+    if (unit.content !== undefined) continue;
+    try {
+      unit.content = await fs.readFile(path.resolve(opts.sourcesDir ?? ".", unit.path), "utf8");
+    } catch {
+      // Not on disk (e.g. a dependency remapped elsewhere)
+    }
+  }
+  return artifact;
+}
@@ -0,0 +1,166 @@
+import { getAddress, toBeHex, zeroPadValue } from "ethers";
+import { AsmItem, assemble } from "../testing/assembler";
+import { RpcNode, startNode } from "../testing/rpcNode";
+import { analyzeAddressRecursively } from "./targetResolver";
+
+const EIP1967_IMPL_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+const EIP1967_BEACON_SLOT = "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+const IMPLEMENTATION_SELECTOR = "0x5c60da1b";
+
+const PROXY = getAddress("0x1000000000000000000000000000000000000001");
+const BEACON = getAddress("0x2000000000000000000000000000000000000002");
+const IMPL = getAddress("0x3000000000000000000000000000000000000003");
+const NEXT = getAddress("0x4000000000000000000000000000000000000004");
+const LAST = getAddress("0x5000000000000000000000000000000000000005");
+
+// Returns empty data: code with no DELEGATECALL to follow
+const PLAIN_CODE = assemble(["PUSH0", "PUSH0", "RETURN"]);
+
+// Forwards the calldata to the address `target` leaves on the stack and bubbles the result
+function forwarder(target: AsmItem[]): string {
+  return assemble([
+    ...target,
+    "CALLDATASIZE", "PUSH0", "PUSH0", "CALLDATACOPY",
+    "PUSH0", "PUSH0", "CALLDATASIZE", "PUSH0", "DUP5", "GAS", "DELEGATECALL",
+    "RETURNDATASIZE", "PUSH0", "PUSH0", "RETURNDATACOPY",
+    { ref: "ok" }, "JUMPI",
+    "RETURNDATASIZE", "PUSH0", "REVERT",
+    { label: "ok" },
+    "RETURNDATASIZE", "PUSH0", "RETURN"
+  ]);
+}
+
+function slotProxy(slot: string): string {
+  return forwarder([{ push: slot }, "SLOAD"]);
+}
+
+// Asks the beacon in the EIP-1967 beacon slot for implementation()
+const BEACON_PROXY = forwarder([
+  { push: IMPLEMENTATION_SELECTOR.padEnd(66, "0") }, "PUSH0", "MSTORE",
+  { push: "0x20" }, "PUSH0", { push: "0x04" }, "PUSH0", { push: EIP1967_BEACON_SLOT }, "SLOAD", "GAS", "STATICCALL",
+  "POP", "PUSH0", "MLOAD"
+]);
+
+function addressWord(address: string): string {
+  return zeroPadValue(address, 32);
+}
+
+function slot(n: number): string {
+  return toBeHex(n, 32);
+}
+
+describe("analyzeAddressRecursively", () => {
+  let node: RpcNode;
+
+  beforeEach(async () => {
+    node = await startNode();
+  });
+
+  afterEach(() => {
+    node.close();
+  });
+
+  it("reads the implementation from the proxy's storage slot and analyzes it", async () => {
+    node.chain.code[PROXY] = slotProxy(EIP1967_IMPL_SLOT);
+    node.chain.code[IMPL] = PLAIN_CODE;
+    node.chain.storage[EIP1967_IMPL_SLOT] = addressWord(IMPL);
+
+    const report = await analyzeAddressRecursively(PROXY, { rpcUrl: node.url });
+
+    expect(report.resolvedTargets).toEqual([
+      { siteId: report.sites[0].id, slot: EIP1967_IMPL_SLOT, address: IMPL, depth: 1 }
+    ]);
+    expect(report.implementations?.map(({ address, depth }) => ({ address, depth }))).toEqual([
+      { address: IMPL, depth: 1 }
+    ]);
+    expect(report.implementations?.[0].report.delegatecallCount).toBe(0);
+    expect(node.requests).toContain("eth_getStorageAt");
+  });
+
+  it("asks a beacon for the implementation with eth_call", async () => {
+    node.chain.code[PROXY] = BEACON_PROXY;
+    node.chain.code[IMPL] = PLAIN_CODE;
+    node.chain.storage[EIP1967_BEACON_SLOT] = addressWord(BEACON);
+    node.chain.calls[`${BEACON}:${IMPLEMENTATION_SELECTOR}`] = addressWord(IMPL);
+
+    const report = await analyzeAddressRecursively(PROXY, { rpcUrl: node.url });
+
+    expect(report.sites[0].classification.externalLookup).toMatchObject({
+      calleeSlot: EIP1967_BEACON_SLOT,
+      selector: IMPLEMENTATION_SELECTOR
+    });
+    expect(report.resolvedTargets).toEqual([
+      { siteId: report.sites[0].id, slot: EIP1967_BEACON_SLOT, callee: BEACON, address: IMPL, depth: 1 }
+    ]);
+    expect(report.implementations?.map(({ address }) => address)).toEqual([IMPL]);
+    expect(node.requests).toContain("eth_call");
+  });
+
+  it("links a target already on the path as a cycle without analyzing it again", async () => {
+    node.chain.code[PROXY] = slotProxy(slot(1));
+    node.chain.code[IMPL] = slotProxy(slot(2));
+    node.chain.storage[slot(1)] = addressWord(IMPL);
+    node.chain.storage[slot(2)] = addressWord(PROXY);
+
+    const report = await analyzeAddressRecursively(PROXY, { rpcUrl: node.url });
+
+    const implementation = report.implementations?.[0];
+    expect(report.implementations).toHaveLength(1);
+    expect(implementation?.address).toBe(IMPL);
+    expect(implementation?.report.resolvedTargets).toEqual([
+      { siteId: implementation?.report.sites[0].id, slot: slot(2), address: PROXY, depth: 2, cycle: true }
+    ]);
+    expect(node.requests.filter((method) => method === "eth_getCode")).toHaveLength(2);
+  });
+
+  it("stops following implementations at maxDepth", async () => {
+    node.chain.code[PROXY] = slotProxy(slot(1));
+    node.chain.code[IMPL] = slotProxy(slot(2));
+    node.chain.code[NEXT] = slotProxy(slot(3));
+    node.chain.code[LAST] = PLAIN_CODE;
+    node.chain.storage[slot(1)] = addressWord(IMPL);
+    node.chain.storage[slot(2)] = addressWord(NEXT);
+    node.chain.storage[slot(3)] = addressWord(LAST);
+
+    const report = await analyzeAddressRecursively(PROXY, { rpcUrl: node.url, maxDepth: 2 });
+
+    expect(report.implementations?.map(({ address, depth }) => ({ address, depth }))).toEqual([
+      { address: IMPL, depth: 1 },
+      { address: NEXT, depth: 2 }
+    ]);
+    expect(report.implementations?.[1].report.resolvedTargets).toBeUndefined();
+
+    const alone = await analyzeAddressRecursively(PROXY, { rpcUrl: node.url, maxDepth: 0 });
+    expect(alone.resolvedTargets).toBeUndefined();
+    expect(alone.implementations).toBeUndefined();
+  });
+
+  it("records a failed code fetch on its target and keeps the report", async () => {
+    node.chain.code[PROXY] = slotProxy(EIP1967_IMPL_SLOT);
+    node.chain.storage[EIP1967_IMPL_SLOT] = addressWord(IMPL);
+
+    const report = await analyzeAddressRecursively(PROXY, { rpcUrl: node.url });
+
+    expect(report.resolvedTargets).toEqual([
+      {
+        siteId: report.sites[0].id,
+        slot: EIP1967_IMPL_SLOT,
+        address: IMPL,
+        depth: 1,
+        error: `No bytecode found at address ${IMPL}`
+      }
+    ]);
+    expect(report.implementations).toBeUndefined();
+  });
+
+  it("records a failed storage read on its target", async () => {
+    node.chain.code[PROXY] = slotProxy(EIP1967_IMPL_SLOT);
+    node.chain.failing.add("eth_getStorageAt");
+
+    const report = await analyzeAddressRecursively(PROXY, { rpcUrl: node.url });
+
+    expect(report.resolvedTargets).toHaveLength(1);
+    expect(report.resolvedTargets?.[0]).toMatchObject({ address: null, depth: 1 });
+    expect(report.resolvedTargets?.[0].error).toContain("eth_getStorageAt unavailable");
+  });
+});
@@ -0,0 +1,183 @@
+import { getAddress } from "ethers";
+import { analyzeBytecode } from "../analysis/delegateScanner";
+import { generateGraph } from "../analysis/graphGenerator";
+import { SignatureDatabase } from "../analysis/signatures";
+import {
+  DelegatecallSiteReport,
+  DelegatecallSurfaceReport,
+  Hardfork,
+  ResolvedImplementation,
+  ResolvedTarget,
+  RiskRule
+} from "../types/analysis";
+import {
+  createProvider,
+  loadAddressFromCall,
+  loadAddressFromStorage,
+  loadBytecodeFromAddress
+} from "./bytecodeLoader";
+
+export const DEFAULT_MAX_DEPTH = 3;
+
+export interface ResolveOptions {
+  network?: string;
+  rpcUrl?: string;
+  hardfork?: Hardfork;
+  maxDepth?: number; // Implementation hops to follow; 0 analyses the contract alone
+  riskRules?: RiskRule[]; // Applied to the contract and every implementation
+  signatures?: SignatureDatabase; // Names selectors in every report
+}
+
+interface PendingContract {
+  address: string;
+  depth: number;
+  report: DelegatecallSurfaceReport;
+  ancestors: Set<string>; // Lowercased addresses on the path from the root, itself included
+}
+
+/**
+ * Analyzes a deployed contract and follows its storage-driven targets: each
+ * `storageSlotLiteral` is read with `eth_getStorageAt`, and the implementation
+ * it holds is fetched and analyzed in turn, up to `maxDepth` hops. External
+ * targets are asked for with `eth_call` (a beacon's implementation()), after
+ * reading the beacon's own address from its slot when it is not fixed. Code
+ * reached through DELEGATECALL runs in the proxy's storage, so every hop's
+ * slots are read at the root address. An address already on the path is a
+ * cycle and is linked but not analyzed again.
+ */
+export async function analyzeAddressRecursively(
+  contractAddress: string,
+  opts: ResolveOptions = {}
+): Promise<DelegatecallSurfaceReport> {
+  // Checksummed like the addresses decoded from storage, so a cycle back to the root meets its node
+  const address = getAddress(contractAddress);
+  const maxDepth = opts.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const provider = createProvider(opts);
+
+  try {
+    const analyze = async (target: string): Promise<DelegatecallSurfaceReport> => {
+      const bytecode = await loadBytecodeFromAddress(target, { provider });
+      return analyzeBytecode(bytecode, {
+        contractAddress: target,
+        network: opts.network,
+        hardfork: opts.hardfork,
+        riskRules: opts.riskRules,
+        signatures: opts.signatures
+      });
+    };
+
+    // The same slot is usually read by several hops (a proxy and its implementation's own fallback)
+    const slotReads = new Map<string, Promise<string | null>>();
+    const readSlot = (slot: string): Promise<string | null> => {
+      let read = slotReads.get(slot);
+      if (!read) {
+        read = loadAddressFromStorage(address, slot, { provider });
+        slotReads.set(slot, read);
+      }
+      return read;
+    };
+
+    // A beacon is asked once however many sites and hops reach it
+    const calls = new Map<string, Promise<string | null>>();
+    const call = (callee: string, selector: string, returnOffset: number): Promise<string | null> => {
+      const key = `${callee.toLowerCase()}:${selector}:${returnOffset}`;
+      let answer = calls.get(key);
+      if (!answer) {
+        answer = loadAddressFromCall(callee, selector, returnOffset, { provider });
+        calls.set(key, answer);
+      }
+      return answer;
+    };
+
+    // Reads the site's current target, recording where it came from on `target`
+    const readTarget = async (site: DelegatecallSiteReport, target: ResolvedTarget): Promise<string | null> => {
+      const lookup = site.classification.externalLookup;
+      if (!lookup) {
+        return readSlot(target.slot as string);
+      }
+      target.callee = lookup.calleeAddress ?? (await readSlot(target.slot as string)) ?? undefined;
+      return target.callee ? call(target.callee, lookup.selector as string, lookup.returnOffset) : null;
+    };
+
+    const root = await analyze(address);
+    const implementations: ResolvedImplementation[] = [];
+    const analyzed = new Set<string>([address.toLowerCase()]);
+    const queue: PendingContract[] = [
+      { address, depth: 0, report: root, ancestors: new Set([address.toLowerCase()]) }
+    ];
+
+    while (queue.length > 0) {
+      const current = queue.shift();
+      if (!current || current.depth >= maxDepth) continue;
+
+      const targets: ResolvedTarget[] = [];
+      for (const site of current.report.sites) {
+        const { addressLiteral, storageSlotLiteral, externalLookup: lookup } = site.classification;
+        // Storage-driven targets need their slot; external ones a known function on a known callee
+        const resolvable = lookup
+          ? lookup.selector !== undefined && (lookup.calleeSlot !== undefined || lookup.calleeAddress !== undefined)
+          : storageSlotLiteral !== undefined && !addressLiteral;
+        if (!resolvable) continue;
+
+        const target: ResolvedTarget = {
+          siteId: site.id,
+          slot: lookup ? lookup.calleeSlot : storageSlotLiteral,
+          address: null,
+          depth: current.depth + 1
+        };
+        targets.push(target);
+        try {
+          target.address = await readTarget(site, target);
+        } catch (err) {
+          target.error = (err as Error).message;
+          continue;
+        }
+        if (!target.address) continue;
+
+        const key = target.address.toLowerCase();
+        if (current.ancestors.has(key)) {
+          target.cycle = true;
+          continue;
+        }
+        // Reached through another site or branch already: link to it without analyzing twice
+        if (analyzed.has(key)) continue;
+        analyzed.add(key);
+
+        try {
+          const report = await analyze(target.address);
+          implementations.push({ address: target.address, depth: target.depth, report });
+          queue.push({
+            address: target.address,
+            depth: target.depth,
+            report,
+            ancestors: new Set([...current.ancestors, key])
+          });
+        } catch (err) {
+          target.error = (err as Error).message;
+        }
+      }
+
+      if (targets.length > 0) {
+        current.report.resolvedTargets = targets;
+      }
+    }
+
+    // Each implementation's graph now links to the contracts it resolved to; the root's
+    // graph merges them all into one multi-hop graph
+    for (const implementation of implementations) {
+      const { report } = implementation;
+      report.graph = generateGraph(implementation.address, report.sites, { targets: report.resolvedTargets });
+    }
+    root.graph = generateGraph(address, root.sites, { targets: root.resolvedTargets, implementations });
+    for (const implementation of implementations) {
+      implementation.report.graph = undefined;
+    }
+
+    if (implementations.length > 0) {
+      root.implementations = implementations;
+    }
+    return root;
+  } finally {
+    provider.destroy();
+  }
+}
@@ -0,0 +1,52 @@
+import { getOpcodeInfo } from "../analysis/opcodes";
+
+// An instruction mnemonic, a PUSH with its value, a label definition or a PUSH2 of a label
+export type AsmItem = string | { push: string } | { label: string } | { ref: string };
+
+/**
+ * Assembles mnemonics into hex bytecode. Label references are PUSH2s of the
+ * label's offset, so every jump is resolvable like in compiler output.
+ */
+export function assemble(items: AsmItem[]): string {
+  const labels = new Map<string, number>();
+  const sizeOf = (item: AsmItem): number => {
+    if (typeof item === "string") return 1;
+    if ("label" in item) return 1; // JUMPDEST
+    if ("ref" in item) return 3;
+    return 1 + pushBytes(item.push).length / 2;
+  };
+
+  let pc = 0;
+  for (const item of items) {
+    if (typeof item === "object" && "label" in item) labels.set(item.label, pc);
+    pc += sizeOf(item);
+  }
+
+  let hex = "";
+  for (const item of items) {
+    if (typeof item === "string") {
+      const info = getOpcodeInfo(item);
+      if (!info) throw new Error(`Unknown opcode ${item}`);
+      hex += byteHex(info.byte);
+    } else if ("label" in item) {
+      hex += "5b";
+    } else if ("ref" in item) {
+      const target = labels.get(item.ref);
+      if (target === undefined) throw new Error(`Unknown label ${item.ref}`);
+      hex += `61${target.toString(16).padStart(4, "0")}`;
+    } else {
+      const data = pushBytes(item.push);
+      hex += byteHex(0x5f + data.length / 2) + data;
+    }
+  }
+  return `0x${hex}`;
+}
+
+function pushBytes(value: string): string {
+  const clean = value.startsWith("0x") ? value.slice(2) : value;
+  return clean.length % 2 === 0 ? clean : `0${clean}`;
+}
+
+function byteHex(byte: number): string {
+  return byte.toString(16).padStart(2, "0");
+}
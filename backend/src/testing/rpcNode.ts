@@ -0,0 +1,80 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { getAddress, toBeHex } from "ethers";
+
+export interface Chain {
+  code: Record<string, string>;
+  storage: Record<string, string>; // By slot, all read at the proxy
+  calls: Record<string, string>; // By "address:calldata"
+  failing: Set<string>; // Methods answered with an error
+  flaky: Record<string, number>; // Methods answered with an error this many more times
+}
+
+export interface RpcNode {
+  url: string;
+  chain: Chain;
+  requests: string[];
+  close: () => void;
+}
+
+/**
+ * A JSON-RPC node serving `chain`, enough for ethers' JsonRpcProvider: it
+ * answers single and batched requests and records every one it gets.
+ */
+export function startNode(): Promise<RpcNode> {
+  const chain: Chain = { code: {}, storage: {}, calls: {}, failing: new Set(), flaky: {} };
+  const requests: string[] = [];
+
+  const answer = ({ id, method, params }: { id: number; method: string; params: unknown[] }) => {
+    requests.push(method);
+    const flaky = chain.flaky[method] ?? 0;
+    if (flaky > 0) chain.flaky[method] = flaky - 1;
+    if (chain.failing.has(method) || flaky > 0) {
+      return { jsonrpc: "2.0", id, error: { code: -32000, message: `${method} unavailable` } };
+    }
+    const result = (() => {
+      switch (method) {
+        case "eth_chainId":
+          return "0x1";
+        case "eth_getCode":
+          return chain.code[getAddress(params[0] as string)] ?? "0x";
+        case "eth_getStorageAt": {
+          // Slots come as quantities ("0x1")
+          return chain.storage[toBeHex(params[1] as string, 32)] ?? toBeHex(0, 32);
+        }
+        case "eth_call": {
+          const { to, data } = params[0] as { to: string; data: string };
+          return chain.calls[`${getAddress(to)}:${data}`] ?? "0x";
+        }
+        default:
+          return null;
+      }
+    })();
+    return { jsonrpc: "2.0", id, result };
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        chain,
+        requests,
+        close: () => {
+          server.closeAllConnections();
+          server.close();
+        }
+      });
+    });
+  });
+}
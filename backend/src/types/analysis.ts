@@ -1,11 +1,29 @@
 export type RiskLevel = "low" | "medium" | "high" | "unknown";
 
+export type Hardfork =
+  | "frontier"
+  | "homestead"
+  | "byzantium"
+  | "constantinople"
+  | "istanbul"
+  | "berlin"
+  | "london"
+  | "paris"
+  | "shanghai"
+  | "cancun";
+
 export type StackExpression =
   | { kind: "Literal"; value: string }
   | { kind: "Storage"; slotExpr: StackExpression }
   | { kind: "Calldata"; offsetExpr: StackExpression }
-  | { kind: "Environment"; source: "CALLER" | "ADDRESS" | "ORIGIN" }
+  | { kind: "Environment"; source: "CALLER" | "ADDRESS" | "ORIGIN" | "CALLDATASIZE" | "RETURNDATASIZE" | "GAS" }
   | { kind: "Op"; op: string; args: StackExpression[] }
+  | { kind: "Keccak"; words: StackExpression[] } // SHA3 over consecutive 32-byte memory words
+  | { kind: "Code"; offset: number; value?: string } // 32-byte word CODECOPY'd from the contract's own code
+  // 32-byte word at `offset` in the data returned by a STATICCALL to `target`, e.g. a beacon's implementation()
+  | { kind: "StaticcallResult"; target: StackExpression; selector?: string; offset: number }
+  // One of a few values, when paths joining at a block disagree (e.g. a slot that is one of two literals)
+  | { kind: "ValueSet"; values: StackExpression[] }
   | { kind: "Unknown" };
 
 export interface Opcode {
@@ -23,20 +41,141 @@ export interface DelegatecallSite {
   targetExpression: StackExpression;
   classification: TargetClassification;
   patternMatch?: ProxyPatternMatch | null;
+  guards?: AccessGuard[];
+  entryPoints?: string[];
+  successCheck?: SuccessCheck;
+  callArguments?: CallArguments;
+  source?: SourceLocation;
+}
+
+// Where a site comes from in the Solidity source, through the compiler's source map
+export interface SourceLocation {
+  file: string; // Source unit path, as in the compiler input
+  offset: number; // Byte range of the source the DELEGATECALL was generated from
+  length: number;
+  line?: number; // 1-based; known when the source text is available
+  column?: number; // 1-based, in bytes
+  contract?: string; // Enclosing contract, library or interface
+  function?: string; // Enclosing function: "_delegate()", "fallback()", "constructor", "modifier onlyOwner"
+}
+
+export type SuccessHandling =
+  | "checked" // a branch depends on the success flag, or it is returned or stored for others to check
+  | "bubbled" // failure reverts with the callee's return data (RETURNDATACOPY + REVERT)
+  | "ignored"; // no branch depends on the flag: a failed call goes unnoticed
+
+export interface SuccessCheck {
+  handling: SuccessHandling;
+  pc?: number; // JUMPI branching on the flag, or else the MSTORE/SSTORE/RETURN it reaches
+}
+
+export type GasArgument =
+  | "remaining" // GAS: all remaining gas (63/64 of it), possibly minus a constant reserve
+  | "fixed" // a constant gas limit
+  | "unknown";
+
+export type CallInput =
+  | "msg.data" // the whole calldata, CALLDATACOPY'd unchanged (transparent forwarding)
+  | "fixed-selector" // a payload built for one function, e.g. initialize(...)
+  | "constructed" // some other payload built in memory
+  | "empty"
+  | "unknown";
+
+export type ReturnDataHandling =
+  | "returned" // copied and RETURNed to the caller as is
+  | "copied" // copied into memory, e.g. to decode it
+  | "discarded"; // never read
+
+export interface CallArguments {
+  gas: GasArgument;
+  gasLimit?: string; // fixed: the literal gas limit
+  input: CallInput;
+  selector?: string; // fixed-selector: the function called
+  returnData: ReturnDataHandling;
+}
+
+export type AccessGuardKind =
+  | "storage" // msg.sender compared with an address read from a storage slot (owner/admin)
+  | "address" // msg.sender compared with a hardcoded address
+  | "self" // msg.sender == address(this): only reachable through the contract itself
+  | "mapping"; // msg.sender looked up in a storage mapping (e.g. wards[msg.sender])
+
+export interface AccessGuard {
+  kind: AccessGuardKind;
+  pc: number; // JUMPI enforcing the check; it dominates the DELEGATECALL
+  slot?: string; // storage: slot of the authorized address; mapping: base slot
+  address?: string; // address: the authorized address
+  details: string; // The check as written, e.g. "msg.sender == SLOAD(0x00..00)"
 }
 
-export type TargetType = "hardcoded" | "storage" | "calldata" | "dynamic" | "unknown";
+export type TargetType =
+  | "hardcoded"
+  | "immutable"
+  | "storage"
+  | "external" // returned by a STATICCALL to another contract (e.g. a beacon)
+  | "calldata"
+  | "dynamic"
+  | "unknown";
+
+export type MappingKeySource = "msg.sig" | "caller" | "calldata" | "literal" | "computed";
+
+export interface StorageMappingLookup {
+  baseSlot?: string; // Literal slot of the mapping itself, when known
+  keySource: MappingKeySource;
+  keyLiteral?: string;
+  fieldOffset?: number; // Struct member offset within the mapped value
+}
+
+export interface ExternalLookup {
+  calleeType: TargetType; // How the called contract's address is derived
+  calleeSlot?: string; // storage: slot holding the callee, e.g. the EIP-1967 beacon slot
+  calleeAddress?: string; // hardcoded/immutable: the callee itself
+  selector?: string; // Function called, e.g. implementation() = 0x5c60da1b
+  returnOffset: number; // Byte offset of the target in the return data
+}
 
 export interface TargetClassification {
   type: TargetType;
   addressLiteral?: string;
   storageSlotLiteral?: string;
+  storageSlots?: string[]; // Set instead of storageSlotLiteral when the slot is one of several literals
+  mapping?: StorageMappingLookup; // Set when the slot is keccak(key . baseSlot)
+  externalLookup?: ExternalLookup; // Set for external targets: the call returning them
   details?: string;
+  // Set when the target is one of several values: each one's own classification
+  candidates?: TargetClassification[];
 }
 
 export interface ProxyPatternMatch {
   name: string;
   description: string;
+  riskHint?: RiskLevel; // The pattern's own risk, weighed with the severities of the rules that fire
+}
+
+// Which sites a risk rule applies to: every listed field must match (lists match any of their values)
+export interface RiskRuleCondition {
+  targetType?: TargetType[];
+  pattern?: string[]; // Proxy pattern names
+  hasPattern?: boolean;
+  slot?: string[]; // Storage slot the target is read from
+  mappingKey?: MappingKeySource[];
+  calleeType?: TargetType[]; // external: how the called contract is derived
+  hasAddress?: boolean; // The target address is known (hardcoded, or resolved immutable)
+  guarded?: boolean; // A msg.sender guard dominates the site
+  guardKind?: AccessGuardKind[];
+  successCheck?: SuccessHandling[];
+  input?: CallInput[];
+  entryPoint?: string[]; // Any of the site's entry points
+}
+
+export interface RiskRule {
+  id: string;
+  when?: RiskRuleCondition; // Omitted: the rule applies to every site
+  severity?: RiskLevel; // Candidate base risk; the highest fired one wins
+  adjust?: "raise" | "lower"; // Moves the base risk one level
+  // Recorded in the site's notes when the rule fires; {address}, {slot}, {pattern}, {mappingKey},
+  // {callee}, {guards}, {successCheck} and {entryPoints} are filled in from the site
+  reason: string;
 }
 
 export interface ProxyPatternSummary {
@@ -48,7 +187,7 @@ export interface GraphNode {
   id: string;
   label: string;
   kind: "contract" | "implementation" | "facet" | "unknown";
-  metadata?: Record<string, any>;
+  metadata?: Record<string, unknown>;
 }
 
 export interface GraphEdge {
@@ -65,21 +204,121 @@ export interface GraphOutput {
   edges: GraphEdge[];
 }
 
+export interface CompilerMetadata {
+  compiler: "solc" | "vyper";
+  version?: string;
+  ipfsHash?: string; // Base58 CIDv0 of the metadata JSON
+  swarmHash?: string; // bzzr0/bzzr1 hash (hex)
+  experimental?: boolean;
+  offset: number; // Byte offset where the CBOR trailer starts
+  length: number; // Trailer size including the 2-byte length suffix
+}
+
+export interface ByteRegion {
+  start: number;
+  end: number; // Exclusive
+  kind: "metadata" | "data";
+}
+
+export type BytecodeKind = "runtime" | "initcode";
+
+export interface DelegatecallSiteReport {
+  id: string;
+  pc: number;
+  classification: TargetClassification;
+  pattern?: ProxyPatternMatch | null;
+  risk: RiskLevel;
+  // External functions reaching the site: selectors ("0x3659cfe6"), "receive", "fallback",
+  // or "constructor" for initcode sites
+  entryPoints?: string[];
+  guards?: AccessGuard[]; // msg.sender checks that every path to the site must pass
+  successCheck?: SuccessCheck; // What happens to the success flag the DELEGATECALL pushes
+  callArguments?: CallArguments; // Gas, input and return data of the call
+  source?: SourceLocation; // Set when a compiler source map was given
+  notes?: string[]; // Risk rules that fired, as "rule-id: reason"
+}
+
+export interface InitcodeAnalysis {
+  bytecodeHash: string; // Hash of the creation code; the report's own hash is of the runtime
+  runtimeOffset?: number; // Where the returned runtime starts in the creation code (unset if not found)
+  runtimeLength?: number;
+  constructorArguments?: string; // Bytes after the runtime, i.e. ABI-encoded constructor arguments
+  delegatecallCount: number;
+  sites: DelegatecallSiteReport[]; // DELEGATECALLs executed during construction (initcode PCs)
+  unresolvedJumps?: number[];
+}
+
+export interface ResolvedTarget {
+  siteId: string;
+  slot?: string; // Storage slot the site reads its target (or, for external targets, the callee) from
+  callee?: string; // external: the contract the target was read from, e.g. the beacon
+  address: string | null; // Decoded from the slot or the call; null when it holds zero
+  depth: number; // Hops from the analysed contract (1 for its own sites' targets)
+  cycle?: boolean; // The address was already analysed closer to the root
+  error?: string; // Reading the slot or fetching the code failed
+}
+
+export interface ResolvedImplementation {
+  address: string;
+  depth: number;
+  report: DelegatecallSurfaceReport; // Without its own graph: it is merged into the root's
+}
+
 export interface DelegatecallSurfaceReport {
   contractAddress?: string;
   network?: string;
+  kind?: BytecodeKind; // What the input was; sites always describe the runtime code
   bytecodeHash: string;
   delegatecallCount: number;
   overallRisk?: RiskLevel;
-  sites: Array<{
-    id: string;
-    pc: number;
-    classification: TargetClassification;
-    pattern?: ProxyPatternMatch | null;
-    risk: RiskLevel;
-    notes?: string[];
-  }>;
+  sites: DelegatecallSiteReport[];
+  // Names of the selectors in the sites (and constructor sites), e.g. "0x3659cfe6": "upgradeTo(address)"
+  functionSignatures?: Record<string, string>;
   proxiesDetected: ProxyPatternSummary[];
+  unresolvedJumps?: number[]; // PCs of reachable jumps whose target could not be resolved
+  compilerMetadata?: CompilerMetadata | null;
+  excludedRegions?: ByteRegion[]; // Byte ranges not disassembled (metadata, trailing data)
+  initcode?: InitcodeAnalysis; // Set when creation bytecode was analyzed
+  resolvedTargets?: ResolvedTarget[]; // Storage-driven and external targets read on-chain
+  implementations?: ResolvedImplementation[]; // Contracts reached through resolvedTargets, at any depth
   graph?: GraphOutput;
 }
 
+export interface ArtifactReport {
+  contract: string; // "path:Name", e.g. "src/Proxy.sol:Proxy"
+  artifact: string; // Artifact file, relative to the scanned directory
+  report: DelegatecallSurfaceReport;
+}
+
+// One build's contracts, from a Foundry out/ or Hardhat artifacts/ directory
+export interface ArtifactScanReport {
+  directory: string;
+  contractCount: number; // Contracts with deployed code, i.e. the ones analyzed
+  delegatecallCount: number; // Sites across all of them
+  overallRisk?: RiskLevel;
+  proxiesDetected: ProxyPatternSummary[];
+  contracts: ArtifactReport[];
+  skipped?: string[]; // Contracts without deployed code (interfaces, abstract contracts)
+}
+
+// One line of a batch scan's JSONL output
+export interface BatchResult {
+  line: number; // Line of the target in the input file
+  address: string;
+  network: string;
+  report?: DelegatecallSurfaceReport;
+  duplicateOf?: { address: string; network: string }; // First target with the same bytecode; its analysis is reused
+  error?: string; // Fetching the bytecode failed, even after retries, or the address has no code
+}
+
+// The last line of a batch scan's output, as { "summary": ... }
+export interface BatchSummary {
+  targets: number;
+  scanned: number; // Targets with a report, duplicates included
+  uniqueBytecodes: number; // Distinct bytecodes analyzed
+  duplicates: number;
+  failed: number;
+  withDelegatecall: number; // Targets with at least one site
+  risks: Partial<Record<RiskLevel, number>>; // Targets by overall risk
+  durationMs: number;
+}
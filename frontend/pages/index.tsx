@@ -18,6 +18,11 @@ interface Site {
   } | null;
   risk: RiskLevel;
   notes?: string[];
+  entryPoints?: string[];
+  callArguments?: {
+    input: string;
+    selector?: string;
+  };
 }
 
 interface Report {
@@ -27,6 +32,7 @@ interface Report {
   delegatecallCount: number;
   overallRisk?: RiskLevel;
   sites: Site[];
+  functionSignatures?: Record<string, string>;
   proxiesDetected: { name: string; count: number }[];
   graph?: {
     nodes: { id: string; label: string; kind: string }[];
@@ -159,7 +165,7 @@ export default function HomePage() {
             {report && (
               <>
                 <ReportSummary report={report} />
-                <DelegateTable sites={report.sites} />
+                <DelegateTable sites={report.sites} functionSignatures={report.functionSignatures} />
                 <ExecutionGraph graph={report.graph} />
               </>
             )}
@@ -217,7 +223,13 @@ function ReportSummary({ report }: { report: Report }) {
   );
 }
 
-function DelegateTable({ sites }: { sites: Site[] }) {
+function DelegateTable({
+  sites,
+  functionSignatures = {}
+}: {
+  sites: Site[];
+  functionSignatures?: Record<string, string>;
+}) {
   if (sites.length === 0) {
     return (
       <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4 text-sm text-slate-400">
@@ -243,6 +255,11 @@ function DelegateTable({ sites }: { sites: Site[] }) {
               <td className="px-4 py-2 align-top">
                 <div className="font-medium text-slate-100">Site #{idx + 1}</div>
                 <div className="text-xs text-slate-400">pc 0x{site.pc.toString(16)}</div>
+                {site.entryPoints?.map((entry) => (
+                  <div key={entry} className="mt-1 text-xs text-slate-300 font-mono" title={entry}>
+                    {functionSignatures[entry] ?? entry}
+                  </div>
+                ))}
               </td>
               <td className="px-4 py-2 align-top">
                 <div className="text-slate-100 text-xs uppercase tracking-wide">
@@ -261,6 +278,14 @@ function DelegateTable({ sites }: { sites: Site[] }) {
                 {site.classification.details && (
                   <div className="text-xs text-slate-400">{site.classification.details}</div>
                 )}
+                {site.callArguments?.selector && (
+                  <div className="text-xs text-slate-400">
+                    calls{" "}
+                    <span className="font-mono" title={site.callArguments.selector}>
+                      {functionSignatures[site.callArguments.selector] ?? site.callArguments.selector}
+                    </span>
+                  </div>
+                )}
               </td>
               <td className="px-4 py-2 align-top">
                 {site.pattern ? (
@@ -274,6 +299,11 @@ function DelegateTable({ sites }: { sites: Site[] }) {
               </td>
               <td className="px-4 py-2 align-top">
                 <RiskBadge risk={site.risk} />
+                {site.notes?.map((note) => (
+                  <div key={note} className="mt-1 text-xs text-slate-400">
+                    {note}
+                  </div>
+                ))}
               </td>
             </tr>
           ))}